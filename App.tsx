@@ -4,7 +4,8 @@
 import React, { useState, useCallback, useEffect, useMemo, Suspense, lazy } from 'react';
 import { AppState, Configuration, CrawlProgress, WordPressPost, AppStats } from './types';
 import { AppIcon, GeminiIcon, SunIcon, MoonIcon, Loader, KeyboardIcon } from './components/icons/Icons';
-import { getTotalPosts, fetchAllPostsParallel, analyzePostImages } from './services/wordpressService';
+import { getTotalPosts, fetchAllPostsParallel, syncPostType, analyzePostImages, buildCrawlFilters, DEFAULT_POST_TYPE } from './services/wordpressService';
+import { loadSite, saveSite, clearSite } from './services/postStore';
 import { startCacheCleanup, stopCacheCleanup } from './services/cache';
 import { getErrorMessage } from './services/errors';
 import { usePersistence } from './hooks/usePersistence';
@@ -106,42 +107,85 @@ const App: React.FC = () => {
     persistence.saveConfig(newConfig);
     
     const abortController = new AbortController();
+    const postTypes = newConfig.wordpress.postTypes?.length ? newConfig.wordpress.postTypes : [DEFAULT_POST_TYPE];
+    const typeFilters = postTypes.map(postType => buildCrawlFilters(postType, newConfig.wordpress.crawlScope));
 
     try {
-      // Phase 1: Get total count
-      const total = await getTotalPosts(
+      // Phase 1: Get total count across every selected post type
+      const totals = await Promise.all(postTypes.map((postType, i) => getTotalPosts(
         newConfig.wordpress.url,
         newConfig.wordpress.username,
         newConfig.wordpress.appPassword,
-        abortController.signal
-      );
+        abortController.signal,
+        postType.restBase,
+        typeFilters[i]
+      )));
+      const total = totals.reduce((sum, n) => sum + n, 0);
+      const restBases = postTypes.map(postType => postType.restBase);
+      const storedSite = await loadSite(newConfig.wordpress.url, restBases, newConfig.wordpress.crawlScope);
+      const incremental = !!storedSite?.posts.length;
       
-      setCrawlProgress({ current: 0, total, phase: 'fetching' });
+      setCrawlProgress({ current: 0, total, phase: 'fetching', incremental });
 
-      // Phase 2: Fetch all posts with parallel requests
+      // Phase 2: Fetch each type with parallel requests, one type at a time.
+      // Types already in the local store only fetch what changed since and drop what left the collection.
       // SOTA CONFIG: Lower batch size (20) and concurrency (3) to prevent 504 timeouts on shared hosting
-      const allPosts = await fetchAllPostsParallel(
-        newConfig.wordpress.url,
-        newConfig.wordpress.username,
-        newConfig.wordpress.appPassword,
-        total,
-        20, // Reduced from 100 for stability
-        (loaded, totalPosts) => {
-          setCrawlProgress({ current: loaded, total: totalPosts, phase: 'fetching' });
-        },
-        abortController.signal,
-        3 // Reduced from 6 for stability
-      );
+      const fetchedPosts: WordPressPost[] = [];
+      const keptPosts: WordPressPost[] = [];
+      for (const [i, postType] of postTypes.entries()) {
+        if (totals[i] === 0) continue;
+        const loadedBefore = fetchedPosts.length;
+        const stored = storedSite?.posts.filter(p => (p.restBase || DEFAULT_POST_TYPE.restBase) === postType.restBase) || [];
 
-      // Phase 3: Analyze images in content (parallel batched)
-      setCrawlProgress({ current: 0, total: allPosts.length, phase: 'analyzing' });
-      
-      const analyzedPosts = await analyzePostImages(
-        allPosts,
-        (analyzed) => {
-          setCrawlProgress({ current: analyzed, total: allPosts.length, phase: 'analyzing' });
+        if (stored.length > 0) {
+          const { changed, removedIds } = await syncPostType(
+            newConfig.wordpress.url,
+            newConfig.wordpress.username,
+            newConfig.wordpress.appPassword,
+            postType,
+            stored,
+            (loaded, changedTotal) => {
+              setCrawlProgress({ current: loadedBefore + loaded, total: loadedBefore + changedTotal, phase: 'fetching', incremental });
+            },
+            abortController.signal,
+            typeFilters[i]
+          );
+          const replaced = new Set([...removedIds, ...changed.map(p => p.id)]);
+          keptPosts.push(...stored.filter(p => !replaced.has(p.id)));
+          fetchedPosts.push(...changed);
+          continue;
         }
-      );
+
+        const typePosts = await fetchAllPostsParallel(
+          newConfig.wordpress.url,
+          newConfig.wordpress.username,
+          newConfig.wordpress.appPassword,
+          totals[i],
+          20, // Reduced from 100 for stability
+          (loaded) => {
+            setCrawlProgress({ current: loadedBefore + loaded, total, phase: 'fetching', incremental });
+          },
+          abortController.signal,
+          3, // Reduced from 6 for stability
+          postType,
+          typeFilters[i]
+        );
+        fetchedPosts.push(...typePosts);
+      }
+
+      // Phase 3: Analyze images in content (parallel batched); stored posts were analysed when first fetched
+      setCrawlProgress({ current: 0, total: fetchedPosts.length, phase: 'analyzing', incremental });
+      
+      const analyzedPosts = [
+        ...keptPosts,
+        ...await analyzePostImages(
+          fetchedPosts,
+          (analyzed) => {
+            setCrawlProgress({ current: analyzed, total: fetchedPosts.length, phase: 'analyzing', incremental });
+          }
+        ),
+      ];
+      await saveSite(newConfig.wordpress.url, restBases, newConfig.wordpress.crawlScope, analyzedPosts);
 
       // Sort: prioritize posts that need work
       const sortedPosts = analyzedPosts.sort((a, b) => {
@@ -159,7 +203,7 @@ const App: React.FC = () => {
 
       setPosts(sortedPosts);
       persistence.savePosts(sortedPosts);
-      setCrawlProgress({ current: total, total, phase: 'complete' });
+      setCrawlProgress({ current: total, total, phase: 'complete', incremental });
       setAppState(AppState.Results);
       
     } catch (error) {
@@ -170,14 +214,16 @@ const App: React.FC = () => {
     }
   }, [persistence]);
 
+  // Reset also forgets the local post store, so the next crawl of this site starts from scratch
   const handleReset = useCallback(() => {
+    if (config) clearSite(config.wordpress.url);
     setAppState(AppState.Welcome);
     setConfig(null);
     setPosts([]);
     setCrawlProgress({ current: 0, total: 0 });
     setCrawlError(null);
     persistence.clearAll();
-  }, [persistence]);
+  }, [config, persistence]);
 
   const handleBackToConfig = useCallback(() => {
     setAppState(AppState.Configuration);
@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { WordPressPost, Configuration, AIProvider, TextAIProvider } from '../types';
-import { analyzeImageWithVision } from '../services/aiService';
+import { WordPressPost, Configuration, ImageAnalysis } from '../types';
+import { analyzeImageWithVision, isPlaceholderText } from '../services/aiService';
 import { updateMediaAltText } from '../services/wordpressService';
 import { XIcon, Loader, CheckCircle2, AlertTriangle, SparklesIcon } from './icons/Icons';
 
@@ -15,7 +15,7 @@ interface Props {
 const AnalysisModal: React.FC<Props> = ({ post, config, onClose, onUpdatePost, onRegenerate }) => {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [analysis, setAnalysis] = useState<{ score: number; altText: string; brief: string; } | null>(null);
+  const [analysis, setAnalysis] = useState<ImageAnalysis | null>(null);
 
   // Effect to lock background scroll when modal is open
   useEffect(() => {
@@ -30,31 +30,10 @@ const AnalysisModal: React.FC<Props> = ({ post, config, onClose, onUpdatePost, o
     const signal = controller.signal;
 
     const performAnalysis = async () => {
-      // Find the Gemini API key from the configuration
-      const geminiApiKey = config.ai.image.provider === AIProvider.Gemini 
-          ? config.ai.image.apiKey 
-          : config.ai.analysis.apiKey;
-          
-      if (!post.existingImageUrl) {
-        setError("No existing image URL found for analysis.");
-        setIsLoading(false);
-        return;
-      }
-      if (config.ai.image.provider !== AIProvider.Gemini && config.ai.analysis.provider !== TextAIProvider.Gemini) {
-          setError("Google Gemini must be selected as an Image or Analysis provider to use AI Vision.");
-          setIsLoading(false);
-          return;
-      }
-      if (!geminiApiKey) {
-        setError("A Google Gemini API key is required for Vision Analysis, but it is not configured.");
-        setIsLoading(false);
-        return;
-      }
-
       try {
         setIsLoading(true);
         onUpdatePost(post.id, { status: 'analyzing', statusMessage: 'Analyzing existing image...' });
-        const result = await analyzeImageWithVision(geminiApiKey, post.existingImageUrl, signal);
+        const result = await analyzeImageWithVision(config.ai.analysis, post, config.seo, signal);
         setAnalysis(result);
         onUpdatePost(post.id, { status: 'analysis_success', statusMessage: `Analysis complete. Score: ${result.score}/10`, analysis: result });
       } catch (e) {
@@ -77,10 +56,17 @@ const AnalysisModal: React.FC<Props> = ({ post, config, onClose, onUpdatePost, o
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [post.id, post.existingImageUrl, config]);
 
+  // Only the featured image has a media id we can write to
+  const canApplyAltText = !!analysis && !!post.featured_media && analysis.imageUrl === post.existingImageUrl;
+
   const handleApplyAltText = async () => {
-    if (!analysis || !post.featured_media) return;
+    if (!analysis || !canApplyAltText) return;
+    if (isPlaceholderText(analysis.altText)) {
+      onUpdatePost(post.id, { status: 'error', statusMessage: 'Refused to save placeholder alt text.' });
+      return;
+    }
     try {
-      await updateMediaAltText(config.wordpress, post.featured_media, analysis.altText);
+      await updateMediaAltText(config.wordpress, post.featured_media, analysis.altText, post);
       onUpdatePost(post.id, { statusMessage: 'New alt text applied!' });
     } catch (e) {
       onUpdatePost(post.id, { status: 'error', statusMessage: 'Failed to apply alt text.' });
@@ -108,20 +94,55 @@ const AnalysisModal: React.FC<Props> = ({ post, config, onClose, onUpdatePost, o
       return (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <div className="space-y-4">
-            <img src={post.existingImageUrl} alt="Image being analyzed" className="rounded-lg w-full h-auto object-contain" />
+            <img src={analysis.imageUrl} alt="Image being analyzed" className="rounded-lg w-full h-auto object-contain" />
              <div className="text-center">
                 <p className="text-sm text-text-secondary">Quality Score</p>
                 <p className="text-4xl font-bold text-brand-primary">{analysis.score}<span className="text-2xl text-muted">/10</span></p>
             </div>
+            <div className="grid grid-cols-2 gap-3 text-center">
+              <div className="bg-surface-muted border border-border rounded-md p-2">
+                <p className="text-xs text-text-secondary">Relevance</p>
+                <p className="text-lg font-bold text-text-primary">{analysis.relevanceScore}/10</p>
+              </div>
+              <div className="bg-surface-muted border border-border rounded-md p-2">
+                <p className="text-xs text-text-secondary">Technical</p>
+                <p className="text-lg font-bold text-text-primary">{analysis.technicalScore}/10</p>
+              </div>
+            </div>
+            {(analysis.hasWatermark || analysis.embeddedText.length > 0) && (
+              <div className="flex items-start gap-2 text-sm bg-amber-500/10 border border-amber-500/30 rounded-md p-3 text-amber-500">
+                <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                <div>
+                  {analysis.hasWatermark && <p>Watermark detected.</p>}
+                  {analysis.embeddedText.length > 0 && <p>Embedded text: "{analysis.embeddedText.join('", "')}"</p>}
+                </div>
+              </div>
+            )}
           </div>
           <div className="space-y-4">
             <div>
               <h4 className="font-semibold text-text-primary mb-1">Suggested Alt Text</h4>
               <p className="text-sm bg-surface-muted border border-border rounded-md p-3 text-text-secondary">{analysis.altText}</p>
-              <button onClick={handleApplyAltText} className="text-sm mt-2 flex items-center gap-2 text-brand-primary hover:underline">
-                <CheckCircle2 className="w-4 h-4"/> Apply this alt text
-              </button>
+              {canApplyAltText ? (
+                <button onClick={handleApplyAltText} className="text-sm mt-2 flex items-center gap-2 text-brand-primary hover:underline">
+                  <CheckCircle2 className="w-4 h-4"/> Apply this alt text
+                </button>
+              ) : (
+                <p className="text-xs mt-2 text-muted">Content image: update its alt text in the post editor.</p>
+              )}
             </div>
+            {analysis.caption && (
+              <div>
+                <h4 className="font-semibold text-text-primary mb-1">Suggested Caption</h4>
+                <p className="text-sm bg-surface-muted border border-border rounded-md p-3 text-text-secondary">{analysis.caption}</p>
+              </div>
+            )}
+            {analysis.filenameSlug && (
+              <div>
+                <h4 className="font-semibold text-text-primary mb-1">Suggested Filename</h4>
+                <p className="text-sm font-mono bg-surface-muted border border-border rounded-md p-3 text-text-secondary">{analysis.filenameSlug}</p>
+              </div>
+            )}
              <div>
               <h4 className="font-semibold text-text-primary mb-1">New Image Brief</h4>
               <p className="text-sm bg-surface-muted border border-border rounded-md p-3 text-text-secondary">{analysis.brief}</p>
@@ -9,13 +9,15 @@ import {
   DownloadIcon, 
   EditIcon,
   TrashIcon,
-  CheckCircle2
+  CheckCircle2,
+  CodeIcon
 } from './icons/Icons';
 
 interface Props {
   selectedPosts: WordPressPost[];
   onClose: () => void;
   onGenerateAll: () => void;
+  onGenerateSchema: () => void;
   onExport: () => void;
 }
 
@@ -23,6 +25,7 @@ const BulkActionsModal: React.FC<Props> = ({
   selectedPosts, 
   onClose, 
   onGenerateAll,
+  onGenerateSchema,
   onExport 
 }) => {
   // Stats
@@ -32,6 +35,7 @@ const BulkActionsModal: React.FC<Props> = ({
     zeroImages: selectedPosts.filter(p => p.imageCount === 0).length,
     lowImages: selectedPosts.filter(p => p.imageCount > 0 && p.imageCount < 3).length,
     processed: selectedPosts.filter(p => p.status === 'success').length,
+    withoutSchema: selectedPosts.filter(p => !p.generatedSchema).length,
   };
 
   // Lock body scroll
@@ -51,6 +55,16 @@ const BulkActionsModal: React.FC<Props> = ({
       onClick: onGenerateAll,
       disabled: stats.withoutFeatured === 0,
     },
+    {
+      id: 'schema',
+      icon: <CodeIcon className="w-5 h-5" />,
+      label: 'Add JSON-LD Schema',
+      description: `Insert Article, image and FAQ structured data into ${stats.total} posts (${stats.withoutSchema} have none yet)`,
+      count: stats.total,
+      color: 'amber',
+      onClick: onGenerateSchema,
+      disabled: stats.total === 0,
+    },
     {
       id: 'export',
       icon: <DownloadIcon className="w-5 h-5" />,
@@ -11,6 +11,15 @@ import {
   AnalysisAIConfig,
   ImageAIConfig,
   ImageSize,
+  TitleCardSettings,
+  MetadataSettings,
+  ImageSettings,
+  WatermarkSettings,
+  WatermarkPlacement,
+  PostTypeInfo,
+  CrawlScope,
+  SiteTaxonomies,
+  WordPressPostStatus,
 } from '../types';
 import {
   EyeIcon,
@@ -24,8 +33,14 @@ import {
   UserIcon,
   SparklesIcon,
 } from './icons/Icons';
-import { testConnection } from '../services/wordpressService';
+import { testConnection, fetchPostTypes, fetchSiteTaxonomies, DEFAULT_POST_TYPE } from '../services/wordpressService';
 import { testTextAIProvider, testImageAIProvider } from '../services/aiService';
+import { getImageProvider, listImageProviders, listTextProviders } from '../services/providerRegistry';
+import { getTargetDimensions } from '../services/imageProcessingService';
+import { DEFAULT_TITLE_CARD } from '../services/providers/titleCard';
+import { DEFAULT_METADATA_SETTINGS } from '../services/metadataService';
+import { DEFAULT_WATERMARK, getWatermarkPlacement } from '../services/watermarkService';
+import WatermarkPreview from './WatermarkPreview';
 
 interface Props {
   onConfigure: (config: Configuration) => void;
@@ -44,12 +59,42 @@ const KEY_HOLDER_MAP: Record<string, string> = {
   [TextAIProvider.Groq]: 'Groq',
 };
 
+const IMAGE_MODEL_OPTIONS: Partial<Record<AIProvider, string[]>> = {
+  [AIProvider.DallE3]: ['dall-e-3', 'gpt-image-1'],
+  [AIProvider.Stability]: ['core', 'ultra', 'sd3'],
+  [AIProvider.OpenRouter]: ['google/gemini-2.5-flash-image-preview', 'openai/gpt-5-image-mini'],
+};
+
+// First entry is the default when switching providers; any model id can be typed in
+const TEXT_MODEL_OPTIONS: Partial<Record<TextAIProvider, string[]>> = {
+  [TextAIProvider.Gemini]: ['gemini-3-flash-preview', 'gemini-2.0-flash'],
+  [TextAIProvider.OpenAI]: ['gpt-4o-mini', 'gpt-4o', 'gpt-4.1-mini'],
+  [TextAIProvider.Groq]: ['llama-3.3-70b-versatile', 'llama-3.1-8b-instant', 'gemma2-9b-it'],
+  [TextAIProvider.OpenRouter]: ['openai/gpt-4o-mini', 'anthropic/claude-3.5-haiku', 'meta-llama/llama-3.3-70b-instruct'],
+};
+
+const CRAWL_STATUSES: Array<{ id: WordPressPostStatus; label: string }> = [
+  { id: 'publish', label: 'Published' },
+  { id: 'draft', label: 'Drafts' },
+  { id: 'future', label: 'Scheduled' },
+  { id: 'private', label: 'Private' },
+];
+
+// Providers speaking the OpenAI chat-completions dialect, which can be pointed at a self-hosted server
+const CUSTOM_ENDPOINT_TEXT_PROVIDERS: TextAIProvider[] = [TextAIProvider.OpenAI, TextAIProvider.Groq];
+
 const ConfigurationStep: React.FC<Props> = ({ onConfigure, initialConfig }) => {
   // WordPress credentials
   const [wpUrl, setWpUrl] = useState(initialConfig?.wordpress?.url || '');
   const [wpUser, setWpUser] = useState(initialConfig?.wordpress?.username || '');
   const [wpPass, setWpPass] = useState('');
   const [showPass, setShowPass] = useState(false);
+  const [postTypes, setPostTypes] = useState<PostTypeInfo[]>(initialConfig?.wordpress?.postTypes || [DEFAULT_POST_TYPE]);
+  const [availableTypes, setAvailableTypes] = useState<PostTypeInfo[]>(initialConfig?.wordpress?.postTypes || [DEFAULT_POST_TYPE]);
+  const [isLoadingTypes, setIsLoadingTypes] = useState(false);
+  const [typesError, setTypesError] = useState<string | null>(null);
+  const [crawlScope, setCrawlScope] = useState<CrawlScope>(initialConfig?.wordpress?.crawlScope || {});
+  const [siteTaxonomies, setSiteTaxonomies] = useState<SiteTaxonomies | null>(null);
 
   // AI providers - FIXED: Use Pollinations by default (free, reliable)
   const [imageProvider, setImageProvider] = useState<AIProvider>(AIProvider.Pollinations);
@@ -57,7 +102,9 @@ const ConfigurationStep: React.FC<Props> = ({ onConfigure, initialConfig }) => {
   
   // FIXED: Correct model names (these are used as fallbacks, the service uses hardcoded correct models)
   const [imageModel, setImageModel] = useState('pollinations'); // Not actually used for Pollinations
+  const [imageBaseUrl, setImageBaseUrl] = useState('');
   const [analysisModel, setAnalysisModel] = useState('gemini-3-flash-preview'); // CORRECT model name
+  const [analysisBaseUrl, setAnalysisBaseUrl] = useState('');
   const [apiKeys, setApiKeys] = useState<Record<string, string>>({});
 
   // Image settings
@@ -71,6 +118,17 @@ const ConfigurationStep: React.FC<Props> = ({ onConfigure, initialConfig }) => {
   const [imageSize, setImageSize] = useState<ImageSize>(
     initialConfig?.image?.imageSize || ImageSize.K1
   );
+  const [maxUploadWidth, setMaxUploadWidth] = useState(initialConfig?.image?.maxUploadWidth || 0);
+  const [variantCount, setVariantCount] = useState(initialConfig?.image?.variantCount || 1);
+  const [autoPickVariants, setAutoPickVariants] = useState(initialConfig?.image?.autoPickVariants ?? true);
+  const [socialVariants, setSocialVariants] = useState(!!initialConfig?.image?.socialVariants);
+  const [injectPlaceholders, setInjectPlaceholders] = useState(!!initialConfig?.image?.injectPlaceholders);
+  const [duplicateCheck, setDuplicateCheck] = useState<ImageSettings['duplicateCheck']>(initialConfig?.image?.duplicateCheck || 'flag');
+  const [metadata, setMetadata] = useState<MetadataSettings>({ ...DEFAULT_METADATA_SETTINGS, ...initialConfig?.image?.metadata });
+  const [titleCard, setTitleCard] = useState<TitleCardSettings>({ ...DEFAULT_TITLE_CARD, ...initialConfig?.image?.titleCard });
+  const [watermark, setWatermark] = useState<WatermarkSettings>({ ...DEFAULT_WATERMARK, ...initialConfig?.image?.watermark });
+  const [watermarkRatio, setWatermarkRatio] = useState<AspectRatio>(initialConfig?.image?.aspectRatio || AspectRatio.Landscape);
+  const [watermarkError, setWatermarkError] = useState<string | null>(null);
   const [style, setStyle] = useState(
     initialConfig?.image?.style ||
       'Professional editorial photography, cinematic lighting, ultra-high resolution'
@@ -94,8 +152,8 @@ const ConfigurationStep: React.FC<Props> = ({ onConfigure, initialConfig }) => {
 
   const requiredKeyHolders = useMemo(() => {
     const holders = new Set<string>();
-    // Pollinations doesn't need an API key
-    if (imageProvider !== AIProvider.Pollinations) {
+    // Keyless engines (Pollinations) skip the key prompt
+    if (getImageProvider(imageProvider).capabilities.requiresApiKey) {
       const holder = KEY_HOLDER_MAP[imageProvider];
       if (holder) holders.add(holder);
     }
@@ -104,6 +162,14 @@ const ConfigurationStep: React.FC<Props> = ({ onConfigure, initialConfig }) => {
     return Array.from(holders);
   }, [imageProvider, analysisProvider]);
 
+  // Self-hosted endpoints usually run without auth, so their key becomes optional
+  const optionalKeyHolder = useMemo(() => {
+    if (!analysisBaseUrl.trim() || !CUSTOM_ENDPOINT_TEXT_PROVIDERS.includes(analysisProvider)) return undefined;
+    const holder = KEY_HOLDER_MAP[analysisProvider];
+    const imageNeedsHolder = getImageProvider(imageProvider).capabilities.requiresApiKey && KEY_HOLDER_MAP[imageProvider] === holder;
+    return imageNeedsHolder ? undefined : holder;
+  }, [analysisBaseUrl, analysisProvider, imageProvider]);
+
   const getApiKeyForProvider = useCallback(
     (provider: AIProvider | TextAIProvider): string | undefined => {
       const holder = KEY_HOLDER_MAP[provider];
@@ -113,12 +179,18 @@ const ConfigurationStep: React.FC<Props> = ({ onConfigure, initialConfig }) => {
   );
 
   const isFormValid = useMemo(() => {
-    if (!wpUrl || !wpUser || !wpPass) return false;
+    if (!wpUrl || !wpUser || !wpPass || postTypes.length === 0) return false;
     for (const holder of requiredKeyHolders) {
-      if (!apiKeys[holder]) return false;
+      if (!apiKeys[holder] && holder !== optionalKeyHolder) return false;
     }
     return true;
-  }, [wpUrl, wpUser, wpPass, requiredKeyHolders, apiKeys]);
+  }, [wpUrl, wpUser, wpPass, postTypes, requiredKeyHolders, optionalKeyHolder, apiKeys]);
+
+  const getAnalysisBaseUrl = useCallback(
+    (): string | undefined =>
+      CUSTOM_ENDPOINT_TEXT_PROVIDERS.includes(analysisProvider) ? analysisBaseUrl.trim() || undefined : undefined,
+    [analysisProvider, analysisBaseUrl]
+  );
 
   const handleSubmit = useCallback(
     (e: React.FormEvent) => {
@@ -130,17 +202,21 @@ const ConfigurationStep: React.FC<Props> = ({ onConfigure, initialConfig }) => {
           url: wpUrl.trim().replace(/\/$/, ''),
           username: wpUser.trim(),
           appPassword: wpPass,
+          postTypes,
+          crawlScope,
         },
         ai: {
           image: {
             provider: imageProvider,
             apiKey: getApiKeyForProvider(imageProvider),
             model: imageModel,
+            baseUrl: imageBaseUrl.trim() || undefined,
           },
           analysis: {
             provider: analysisProvider,
             apiKey: getApiKeyForProvider(analysisProvider),
             model: analysisModel,
+            baseUrl: getAnalysisBaseUrl(),
           },
         },
         image: {
@@ -148,6 +224,15 @@ const ConfigurationStep: React.FC<Props> = ({ onConfigure, initialConfig }) => {
           quality,
           aspectRatio,
           imageSize,
+          maxUploadWidth: maxUploadWidth || undefined,
+          variantCount,
+          autoPickVariants,
+          ...(imageProvider === AIProvider.TitleCard ? { titleCard } : {}),
+          socialVariants,
+          metadata,
+          watermark,
+          duplicateCheck,
+          injectPlaceholders,
           style,
           negativePrompt,
           useHighQuality,
@@ -161,9 +246,47 @@ const ConfigurationStep: React.FC<Props> = ({ onConfigure, initialConfig }) => {
 
       onConfigure(config);
     },
-    [isFormValid, wpUrl, wpUser, wpPass, imageProvider, analysisProvider, imageModel, analysisModel, imageFormat, quality, aspectRatio, imageSize, style, negativePrompt, useHighQuality, targetLocation, primaryKeywords, brandVoice, getApiKeyForProvider, onConfigure]
+    [isFormValid, wpUrl, wpUser, wpPass, postTypes, crawlScope, imageProvider, analysisProvider, imageModel, imageBaseUrl, analysisModel, getAnalysisBaseUrl, imageFormat, quality, aspectRatio, imageSize, maxUploadWidth, variantCount, autoPickVariants, titleCard, socialVariants, metadata, watermark, duplicateCheck, injectPlaceholders, style, negativePrompt, useHighQuality, targetLocation, primaryKeywords, brandVoice, getApiKeyForProvider, onConfigure]
   );
 
+  const handleDiscoverTypes = useCallback(async () => {
+    if (!wpUrl || !wpUser || !wpPass) return;
+    try {
+      setIsLoadingTypes(true);
+      setTypesError(null);
+      const siteUrl = wpUrl.trim().replace(/\/$/, '');
+      const [types, taxonomies] = await Promise.all([
+        fetchPostTypes(siteUrl, wpUser.trim(), wpPass),
+        fetchSiteTaxonomies(siteUrl, wpUser.trim(), wpPass),
+      ]);
+      setAvailableTypes(types);
+      setSiteTaxonomies(taxonomies);
+      // Keep only selections the site still exposes
+      setPostTypes(selected => {
+        const kept = types.filter(t => selected.some(s => s.slug === t.slug));
+        return kept.length > 0 ? kept : types.filter(t => t.slug === DEFAULT_POST_TYPE.slug);
+      });
+    } catch (error: any) {
+      setTypesError(error.message);
+    } finally {
+      setIsLoadingTypes(false);
+    }
+  }, [wpUrl, wpUser, wpPass]);
+
+  const toggleCrawlStatus = useCallback((status: WordPressPostStatus) => {
+    setCrawlScope(scope => {
+      const current = scope.statuses?.length ? scope.statuses : ['publish' as WordPressPostStatus];
+      const statuses = current.includes(status) ? current.filter(s => s !== status) : [...current, status];
+      return { ...scope, statuses: statuses.length > 0 ? statuses : undefined };
+    });
+  }, []);
+
+  const togglePostType = useCallback((type: PostTypeInfo) => {
+    setPostTypes(selected => selected.some(s => s.slug === type.slug)
+      ? selected.filter(s => s.slug !== type.slug)
+      : [...selected, type]);
+  }, []);
+
   const handleTestConnections = useCallback(async () => {
     setIsTesting(true);
     const results: TestResults = {};
@@ -173,12 +296,13 @@ const ConfigurationStep: React.FC<Props> = ({ onConfigure, initialConfig }) => {
       setTestResults({ ...results });
       const wpResult = await testConnection(wpUrl, wpUser, wpPass);
       results['WordPress'] = { status: wpResult.success ? 'success' : 'error', message: wpResult.message };
+      if (wpResult.success) handleDiscoverTypes();
     } catch (error: any) {
       results['WordPress'] = { status: 'error', message: error.message };
     }
     setTestResults({ ...results });
 
-    const analysisConfig: AnalysisAIConfig = { provider: analysisProvider, apiKey: getApiKeyForProvider(analysisProvider), model: analysisModel };
+    const analysisConfig: AnalysisAIConfig = { provider: analysisProvider, apiKey: getApiKeyForProvider(analysisProvider), model: analysisModel, baseUrl: getAnalysisBaseUrl() };
     try {
       results[analysisProvider] = { status: 'testing', message: 'Testing...' };
       setTestResults({ ...results });
@@ -189,8 +313,58 @@ const ConfigurationStep: React.FC<Props> = ({ onConfigure, initialConfig }) => {
     }
     setTestResults({ ...results });
 
+    const imageConfig: ImageAIConfig = { provider: imageProvider, apiKey: getApiKeyForProvider(imageProvider), model: imageModel, baseUrl: imageBaseUrl.trim() || undefined };
+    const imageKey = `${imageProvider} (Image)`;
+    try {
+      results[imageKey] = { status: 'testing', message: 'Testing...' };
+      setTestResults({ ...results });
+      const imageResult = await testImageAIProvider(imageConfig);
+      results[imageKey] = { status: imageResult.success ? 'success' : 'error', message: imageResult.message };
+    } catch (error: any) {
+      results[imageKey] = { status: 'error', message: error.message };
+    }
+    setTestResults({ ...results });
+
     setIsTesting(false);
-  }, [wpUrl, wpUser, wpPass, analysisProvider, analysisModel, getApiKeyForProvider]);
+  }, [wpUrl, wpUser, wpPass, handleDiscoverTypes, analysisProvider, analysisModel, getAnalysisBaseUrl, imageProvider, imageModel, imageBaseUrl, getApiKeyForProvider]);
+
+  const handleImageProviderChange = useCallback((provider: AIProvider) => {
+    setImageProvider(provider);
+    const models = IMAGE_MODEL_OPTIONS[provider];
+    if (models && !models.includes(imageModel)) {
+      setImageModel(models[0]);
+    }
+  }, [imageModel]);
+
+  const handleWatermarkLogo = useCallback((file: File | undefined) => {
+    if (!file) return;
+    if (file.type !== 'image/png') {
+      setWatermarkError('Logo must be a PNG (transparency is kept).');
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => {
+      setWatermarkError(null);
+      setWatermark(w => ({ ...w, logoDataUrl: String(reader.result), enabled: true }));
+    };
+    reader.onerror = () => setWatermarkError('Could not read the logo file.');
+    reader.readAsDataURL(file);
+  }, []);
+
+  const updateWatermarkPlacement = useCallback((updates: Partial<WatermarkPlacement>) => {
+    setWatermark(w => ({
+      ...w,
+      placements: { ...w.placements, [watermarkRatio]: { ...getWatermarkPlacement(w, watermarkRatio), ...updates } },
+    }));
+  }, [watermarkRatio]);
+
+  const handleAnalysisProviderChange = useCallback((provider: TextAIProvider) => {
+    setAnalysisProvider(provider);
+    const models = TEXT_MODEL_OPTIONS[provider];
+    if (models && !models.includes(analysisModel)) {
+      setAnalysisModel(models[0]);
+    }
+  }, [analysisModel]);
 
   return (
     <div className="bg-surface rounded-2xl shadow-2xl p-6 sm:p-10 max-w-5xl mx-auto animate-fade-in border border-border">
@@ -229,6 +403,65 @@ const ConfigurationStep: React.FC<Props> = ({ onConfigure, initialConfig }) => {
               </button>
             </div>
           </div>
+
+          <div className="md:col-span-3">
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-[10px] font-black text-muted uppercase tracking-widest">Content Types</label>
+              <button type="button" onClick={handleDiscoverTypes} disabled={isLoadingTypes || !wpUrl || !wpUser || !wpPass} className="flex items-center gap-1 text-[10px] font-bold text-brand-primary hover:underline disabled:opacity-50 disabled:no-underline">
+                {isLoadingTypes && <Loader className="w-3 h-3 animate-spin" />} Load types &amp; terms
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {availableTypes.map(type => {
+                const selected = postTypes.some(s => s.slug === type.slug);
+                return (
+                  <button key={type.slug} type="button" onClick={() => togglePostType(type)} className={`px-3 py-1.5 rounded-lg text-xs font-bold border transition-colors ${selected ? 'bg-brand-primary text-white border-brand-primary' : 'bg-background text-text-secondary border-border hover:border-brand-primary'}`}>
+                    {type.name} <span className="opacity-60 font-mono">/{type.restBase}</span>
+                  </button>
+                );
+              })}
+            </div>
+            {typesError && <p className="text-[10px] text-red-400 mt-1">{typesError}</p>}
+            {postTypes.length === 0 && <p className="text-[10px] text-amber-600 mt-1">Select at least one type to crawl.</p>}
+          </div>
+
+          <div className="md:col-span-3 grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-[10px] font-black text-muted uppercase tracking-widest mb-2">Statuses</label>
+              <div className="flex flex-wrap gap-2">
+                {CRAWL_STATUSES.map(({ id, label }) => {
+                  const selected = (crawlScope.statuses?.length ? crawlScope.statuses : ['publish']).includes(id);
+                  return (
+                    <button key={id} type="button" onClick={() => toggleCrawlStatus(id)} className={`px-3 py-1.5 rounded-lg text-xs font-bold border transition-colors ${selected ? 'bg-brand-primary text-white border-brand-primary' : 'bg-background text-text-secondary border-border hover:border-brand-primary'}`}>
+                      {label}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+            {([['categories', 'Only Categories'], ['tags', 'Only Tags']] as const).map(([key, label]) => (
+              <div key={key}>
+                <label className="block text-[10px] font-black text-muted uppercase tracking-widest mb-2">
+                  {label} {crawlScope[key]?.length ? `(${crawlScope[key]!.length})` : '(any)'}
+                </label>
+                {siteTaxonomies ? (
+                  <select
+                    multiple
+                    value={(crawlScope[key] || []).map(String)}
+                    onChange={(e) => {
+                      const ids = Array.from(e.target.selectedOptions as HTMLCollectionOf<HTMLOptionElement>, o => Number(o.value));
+                      setCrawlScope(scope => ({ ...scope, [key]: ids.length > 0 ? ids : undefined }));
+                    }}
+                    className="w-full h-24 bg-background border border-border rounded-xl px-3 py-2 text-xs text-text-primary"
+                  >
+                    {siteTaxonomies[key].map(term => <option key={term.id} value={term.id}>{term.name}{term.count !== undefined ? ` (${term.count})` : ''}</option>)}
+                  </select>
+                ) : (
+                  <p className="text-[10px] text-muted">{crawlScope[key]?.length ? `${crawlScope[key]!.length} selected. ` : ''}Load types &amp; terms to choose. Types without this taxonomy are not restricted.</p>
+                )}
+              </div>
+            ))}
+          </div>
         </fieldset>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -238,21 +471,63 @@ const ConfigurationStep: React.FC<Props> = ({ onConfigure, initialConfig }) => {
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                         <div>
                             <label className="block text-[10px] font-black text-muted uppercase tracking-widest mb-2">Image Engine</label>
-                            <select value={imageProvider} onChange={(e) => setImageProvider(e.target.value as AIProvider)} className="w-full bg-background border border-border rounded-xl px-4 py-3 text-sm text-text-primary outline-none">
-                                {Object.values(AIProvider).map(p => <option key={p} value={p}>{p}</option>)}
+                            <select value={imageProvider} onChange={(e) => handleImageProviderChange(e.target.value as AIProvider)} className="w-full bg-background border border-border rounded-xl px-4 py-3 text-sm text-text-primary outline-none">
+                                {listImageProviders().map(p => <option key={p.id} value={p.id}>{p.id}</option>)}
                             </select>
                             {imageProvider === AIProvider.Pollinations && (
                               <p className="text-[10px] text-emerald-500 mt-2">✓ Free, no API key required</p>
                             )}
+                            {imageProvider === AIProvider.TitleCard && (
+                              <>
+                                <p className="text-[10px] text-emerald-500 mt-2">✓ Rendered locally from the post title, no API key required</p>
+                                <div className="grid grid-cols-2 gap-2 mt-3">
+                                  <input type="text" value={titleCard.fontFamily} onChange={(e) => setTitleCard(t => ({ ...t, fontFamily: e.target.value }))} placeholder="Font family" className="col-span-2 bg-background border border-border rounded-xl px-4 py-2 text-xs text-text-primary outline-none" />
+                                  <label className="flex items-center gap-2 text-[10px] text-muted">
+                                    <input type="color" value={titleCard.backgroundFrom} onChange={(e) => setTitleCard(t => ({ ...t, backgroundFrom: e.target.value }))} className="w-8 h-8 rounded bg-transparent" /> Gradient start
+                                  </label>
+                                  <label className="flex items-center gap-2 text-[10px] text-muted">
+                                    <input type="color" value={titleCard.backgroundTo} onChange={(e) => setTitleCard(t => ({ ...t, backgroundTo: e.target.value }))} className="w-8 h-8 rounded bg-transparent" /> Gradient end
+                                  </label>
+                                  <label className="flex items-center gap-2 text-[10px] text-muted">
+                                    <input type="color" value={titleCard.textColor} onChange={(e) => setTitleCard(t => ({ ...t, textColor: e.target.value }))} className="w-8 h-8 rounded bg-transparent" /> Text
+                                  </label>
+                                  <select value={titleCard.align || 'left'} onChange={(e) => setTitleCard(t => ({ ...t, align: e.target.value as TitleCardSettings['align'] }))} className="bg-background border border-border rounded-xl px-3 py-2 text-xs text-text-primary outline-none">
+                                    <option value="left">Left aligned</option>
+                                    <option value="center">Centered</option>
+                                  </select>
+                                  <select value={titleCard.background} onChange={(e) => setTitleCard(t => ({ ...t, background: e.target.value as TitleCardSettings['background'] }))} className="col-span-2 bg-background border border-border rounded-xl px-3 py-2 text-xs text-text-primary outline-none">
+                                    <option value="gradient">Gradient background (offline)</option>
+                                    <option value="ai">AI background via Pollinations</option>
+                                  </select>
+                                  <input type="url" value={titleCard.logoUrl || ''} onChange={(e) => setTitleCard(t => ({ ...t, logoUrl: e.target.value || undefined }))} placeholder="Logo URL (optional, must allow CORS)" className="col-span-2 bg-background border border-border rounded-xl px-4 py-2 text-xs text-text-primary outline-none" />
+                                </div>
+                              </>
+                            )}
                             {imageProvider === AIProvider.Gemini && (
                               <p className="text-[10px] text-amber-500 mt-2">⚠ Will use Pollinations (Gemini image gen unavailable)</p>
                             )}
+                            {IMAGE_MODEL_OPTIONS[imageProvider] && (
+                              <>
+                                <input list="image-model-options" value={imageModel} onChange={(e) => setImageModel(e.target.value)} placeholder="Model" className="w-full mt-3 bg-background border border-border rounded-xl px-4 py-2 text-xs text-text-primary outline-none" />
+                                <datalist id="image-model-options">
+                                  {IMAGE_MODEL_OPTIONS[imageProvider]!.map(m => <option key={m} value={m} />)}
+                                </datalist>
+                                <input type="url" value={imageBaseUrl} onChange={(e) => setImageBaseUrl(e.target.value)} placeholder="Custom endpoint (optional)" className="w-full mt-2 bg-background border border-border rounded-xl px-4 py-2 text-xs text-text-primary outline-none" />
+                              </>
+                            )}
                         </div>
                         <div>
                             <label className="block text-[10px] font-black text-muted uppercase tracking-widest mb-2">Text Analysis</label>
-                            <select value={analysisProvider} onChange={(e) => setAnalysisProvider(e.target.value as TextAIProvider)} className="w-full bg-background border border-border rounded-xl px-4 py-3 text-sm text-text-primary outline-none">
-                                {Object.values(TextAIProvider).map(p => <option key={p} value={p}>{p}</option>)}
+                            <select value={analysisProvider} onChange={(e) => handleAnalysisProviderChange(e.target.value as TextAIProvider)} className="w-full bg-background border border-border rounded-xl px-4 py-3 text-sm text-text-primary outline-none">
+                                {listTextProviders().map(p => <option key={p.id} value={p.id}>{p.id}</option>)}
                             </select>
+                            <input list="text-model-options" value={analysisModel} onChange={(e) => setAnalysisModel(e.target.value)} placeholder="Model" className="w-full mt-3 bg-background border border-border rounded-xl px-4 py-2 text-xs text-text-primary outline-none" />
+                            <datalist id="text-model-options">
+                              {(TEXT_MODEL_OPTIONS[analysisProvider] || []).map(m => <option key={m} value={m} />)}
+                            </datalist>
+                            {CUSTOM_ENDPOINT_TEXT_PROVIDERS.includes(analysisProvider) && (
+                              <input type="url" value={analysisBaseUrl} onChange={(e) => setAnalysisBaseUrl(e.target.value)} placeholder="Custom endpoint, e.g. http://localhost:8000/v1 (optional)" className="w-full mt-2 bg-background border border-border rounded-xl px-4 py-2 text-xs text-text-primary outline-none" />
+                            )}
                         </div>
                     </div>
                 </fieldset>
@@ -272,10 +547,132 @@ const ConfigurationStep: React.FC<Props> = ({ onConfigure, initialConfig }) => {
                                 {Object.entries(AspectRatio).map(([k, v]) => <option key={k} value={v}>{k}</option>)}
                             </select>
                         </div>
+                        <div>
+                            <label className="block text-[10px] font-black text-muted uppercase tracking-widest mb-2">Size</label>
+                            <select value={imageSize} onChange={(e) => setImageSize(e.target.value as ImageSize)} className="w-full bg-background border border-border rounded-xl px-3 py-2 text-xs text-text-primary">
+                                {Object.values(ImageSize).map(v => {
+                                    const { width, height } = getTargetDimensions(aspectRatio, v);
+                                    return <option key={v} value={v}>{v} ({width}×{height})</option>;
+                                })}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-[10px] font-black text-muted uppercase tracking-widest mb-2">Max Upload Width</label>
+                            <input type="number" min={0} step={100} value={maxUploadWidth || ''} onChange={(e) => setMaxUploadWidth(Math.max(0, Number(e.target.value) || 0))} placeholder="No limit" className="w-full bg-background border border-border rounded-xl px-3 py-2 text-xs text-text-primary" />
+                        </div>
                         <div className="col-span-2">
                              <label className="block text-[10px] font-black text-muted uppercase tracking-widest mb-2">Style Preset</label>
                              <input type="text" value={style} onChange={(e) => setStyle(e.target.value)} className="w-full bg-background border border-border rounded-xl px-4 py-2 text-xs text-text-primary" />
                         </div>
+                        <div className="col-span-2">
+                            <label className="block text-[10px] font-black text-muted uppercase tracking-widest mb-2">
+                                Quality {imageFormat === ImageFormat.PNG ? '(lossless)' : `${quality}%`}
+                            </label>
+                            <input type="range" min={40} max={100} step={5} value={quality} onChange={(e) => setQuality(Number(e.target.value))} disabled={imageFormat === ImageFormat.PNG} className="w-full accent-brand-primary disabled:opacity-50" />
+                        </div>
+                        <div>
+                            <label className="block text-[10px] font-black text-muted uppercase tracking-widest mb-2">Variants</label>
+                            <select value={variantCount} onChange={(e) => setVariantCount(Number(e.target.value))} className="w-full bg-background border border-border rounded-xl px-3 py-2 text-xs text-text-primary">
+                                {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n === 1 ? '1 (upload directly)' : `${n} candidates`}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-[10px] font-black text-muted uppercase tracking-widest mb-2">Duplicates</label>
+                            <select value={duplicateCheck} onChange={(e) => setDuplicateCheck(e.target.value as ImageSettings['duplicateCheck'])} className="w-full bg-background border border-border rounded-xl px-3 py-2 text-xs text-text-primary">
+                                <option value="flag">Flag look-alikes</option>
+                                <option value="regenerate">Regenerate look-alikes</option>
+                                <option value="off">Don't check</option>
+                            </select>
+                        </div>
+                        {variantCount > 1 && (
+                            <label className="col-span-3 flex items-center gap-2 self-end pb-2 text-xs text-text-secondary cursor-pointer">
+                                <input type="checkbox" checked={autoPickVariants} onChange={(e) => setAutoPickVariants(e.target.checked)} className="accent-brand-primary" />
+                                Auto-pick the best-scoring variant in bulk runs (single posts always open the picker)
+                            </label>
+                        )}
+                        <label className="col-span-2 md:col-span-4 flex items-center gap-2 text-xs text-text-secondary cursor-pointer">
+                            <input type="checkbox" checked={socialVariants} onChange={(e) => setSocialVariants(e.target.checked)} className="accent-brand-primary" />
+                            Also upload social share crops (Open Graph 1200×630, Twitter 1200×675, Pinterest 1000×1500) and set them in Yoast or Rank Math when detected
+                        </label>
+                        <label className="col-span-2 md:col-span-4 flex items-center gap-2 text-xs text-text-secondary cursor-pointer">
+                            <input type="checkbox" checked={injectPlaceholders} onChange={(e) => setInjectPlaceholders(e.target.checked)} className="accent-brand-primary" />
+                            Mark inserted images with the has-ai-placeholder class so themes can show the blurred placeholder and dominant colour from media meta while they load
+                        </label>
+                    </div>
+                </fieldset>
+
+                <fieldset className="p-8 bg-surface-muted/30 rounded-2xl border border-border">
+                    <legend className="text-[10px] font-black uppercase tracking-[0.2em] text-brand-primary bg-surface px-4 py-1.5 rounded-full border border-border">Metadata & Disclosure</legend>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-[10px] font-black text-muted uppercase tracking-widest mb-2">Creator / Credit</label>
+                            <input type="text" value={metadata.creator} onChange={(e) => setMetadata(m => ({ ...m, creator: e.target.value }))} placeholder="Site or author name" disabled={!metadata.embed && !metadata.c2paSidecar} className="w-full bg-background border border-border rounded-xl px-4 py-2 text-xs text-text-primary disabled:opacity-50" />
+                        </div>
+                        <div>
+                            <label className="block text-[10px] font-black text-muted uppercase tracking-widest mb-2">Copyright Notice</label>
+                            <input type="text" value={metadata.copyright} onChange={(e) => setMetadata(m => ({ ...m, copyright: e.target.value }))} placeholder={`© ${new Date().getFullYear()} Your Company`} disabled={!metadata.embed && !metadata.c2paSidecar} className="w-full bg-background border border-border rounded-xl px-4 py-2 text-xs text-text-primary disabled:opacity-50" />
+                        </div>
+                        <label className="flex items-center gap-2 text-xs text-text-secondary cursor-pointer">
+                            <input type="checkbox" checked={metadata.embed} onChange={(e) => setMetadata(m => ({ ...m, embed: e.target.checked }))} className="accent-brand-primary" />
+                            Embed caption, alt text and rights as XMP (JPEG, PNG, WebP)
+                        </label>
+                        <label className="flex items-center gap-2 text-xs text-text-secondary cursor-pointer">
+                            <input type="checkbox" checked={metadata.aiDisclosure} onChange={(e) => setMetadata(m => ({ ...m, aiDisclosure: e.target.checked }))} className="accent-brand-primary" />
+                            Label as AI-generated (IPTC trainedAlgorithmicMedia)
+                        </label>
+                        <label className="md:col-span-2 flex items-center gap-2 text-xs text-text-secondary cursor-pointer">
+                            <input type="checkbox" checked={metadata.c2paSidecar} onChange={(e) => setMetadata(m => ({ ...m, c2paSidecar: e.target.checked }))} className="accent-brand-primary" />
+                            Upload a C2PA-style JSON manifest next to each image (unsigned; the site must allow JSON uploads)
+                        </label>
+                    </div>
+                </fieldset>
+
+                <fieldset className="p-8 bg-surface-muted/30 rounded-2xl border border-border">
+                    <legend className="text-[10px] font-black uppercase tracking-[0.2em] text-brand-primary bg-surface px-4 py-1.5 rounded-full border border-border">Watermark</legend>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <div className="space-y-4">
+                            <label className="flex items-center gap-2 text-xs text-text-secondary cursor-pointer">
+                                <input type="checkbox" checked={watermark.enabled} onChange={(e) => setWatermark(w => ({ ...w, enabled: e.target.checked }))} disabled={!watermark.logoDataUrl} className="accent-brand-primary" />
+                                Stamp a logo on generated images before upload (posts can opt out individually)
+                            </label>
+                            <div>
+                                <label className="block text-[10px] font-black text-muted uppercase tracking-widest mb-2">Logo (PNG)</label>
+                                <input type="file" accept="image/png" onChange={(e) => handleWatermarkLogo(e.target.files?.[0])} className="w-full text-xs text-text-secondary file:mr-3 file:py-2 file:px-4 file:rounded-xl file:border-0 file:bg-surface-muted file:text-text-primary file:text-xs file:font-bold" />
+                                {watermarkError && <p className="text-[10px] text-red-400 mt-1">{watermarkError}</p>}
+                            </div>
+                            <div>
+                                <label className="block text-[10px] font-black text-muted uppercase tracking-widest mb-2">Opacity {Math.round(watermark.opacity * 100)}%</label>
+                                <input type="range" min={0.1} max={1} step={0.05} value={watermark.opacity} onChange={(e) => setWatermark(w => ({ ...w, opacity: Number(e.target.value) }))} className="w-full accent-brand-primary" />
+                            </div>
+                            <div className="flex gap-2">
+                                {Object.values(AspectRatio).map(ratio => (
+                                    <button key={ratio} type="button" onClick={() => setWatermarkRatio(ratio)} className={`px-3 py-1.5 rounded-lg text-[10px] font-bold border transition-colors ${watermarkRatio === ratio ? 'bg-brand-primary text-white border-brand-primary' : 'bg-background text-text-secondary border-border hover:border-brand-primary'}`}>{ratio}</button>
+                                ))}
+                            </div>
+                            <div>
+                                <label className="block text-[10px] font-black text-muted uppercase tracking-widest mb-2">Position</label>
+                                <select value={getWatermarkPlacement(watermark, watermarkRatio).position} onChange={(e) => updateWatermarkPlacement({ position: e.target.value as WatermarkPlacement['position'] })} className="w-full bg-background border border-border rounded-xl px-3 py-2 text-xs text-text-primary">
+                                    <option value="top-left">Top left</option>
+                                    <option value="top-right">Top right</option>
+                                    <option value="bottom-left">Bottom left</option>
+                                    <option value="bottom-right">Bottom right</option>
+                                    <option value="center">Center</option>
+                                </select>
+                            </div>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className="block text-[10px] font-black text-muted uppercase tracking-widest mb-2">Size {Math.round(getWatermarkPlacement(watermark, watermarkRatio).scale * 100)}% of width</label>
+                                    <input type="range" min={0.04} max={0.5} step={0.01} value={getWatermarkPlacement(watermark, watermarkRatio).scale} onChange={(e) => updateWatermarkPlacement({ scale: Number(e.target.value) })} className="w-full accent-brand-primary" />
+                                </div>
+                                <div>
+                                    <label className="block text-[10px] font-black text-muted uppercase tracking-widest mb-2">Padding {(getWatermarkPlacement(watermark, watermarkRatio).padding * 100).toFixed(1)}%</label>
+                                    <input type="range" min={0} max={0.1} step={0.005} value={getWatermarkPlacement(watermark, watermarkRatio).padding} onChange={(e) => updateWatermarkPlacement({ padding: Number(e.target.value) })} className="w-full accent-brand-primary" />
+                                </div>
+                            </div>
+                        </div>
+                        <div className="flex items-center justify-center">
+                            <WatermarkPreview settings={watermark} aspectRatio={watermarkRatio} />
+                        </div>
                     </div>
                 </fieldset>
 
@@ -312,9 +709,9 @@ const ConfigurationStep: React.FC<Props> = ({ onConfigure, initialConfig }) => {
                       requiredKeyHolders.map(holder => (
                         <div key={holder}>
                             <label className="block text-[10px] font-black text-muted uppercase tracking-widest mb-2 flex justify-between">
-                                {holder} {testResults[holder]?.status === 'success' && <CheckCircle2 className="w-3 h-3 text-emerald-500"/>}
+                                {holder}{holder === optionalKeyHolder && ' (optional)'} {testResults[holder]?.status === 'success' && <CheckCircle2 className="w-3 h-3 text-emerald-500"/>}
                             </label>
-                            <input type="password" value={apiKeys[holder] || ''} onChange={(e) => setApiKeys(p => ({ ...p, [holder]: e.target.value }))} placeholder="API Key" required className="w-full bg-background border border-border rounded-xl px-4 py-2.5 text-xs text-text-primary focus:ring-2 focus:ring-brand-primary outline-none" />
+                            <input type="password" value={apiKeys[holder] || ''} onChange={(e) => setApiKeys(p => ({ ...p, [holder]: e.target.value }))} placeholder="API Key" required={holder !== optionalKeyHolder} className="w-full bg-background border border-border rounded-xl px-4 py-2.5 text-xs text-text-primary focus:ring-2 focus:ring-brand-primary outline-none" />
                         </div>
                       ))
                     )}
@@ -85,8 +85,8 @@ const CrawlingStep: React.FC<Props> = ({ progress, error }) => {
         {!progress.phase && 'Scanning Your Website'}
       </h2>
       <p className="text-text-secondary mb-8 text-center max-w-md">
-        {progress.phase === 'fetching' && 'Retrieving posts from your WordPress site...'}
-        {progress.phase === 'analyzing' && 'Scanning content for images and analyzing quality...'}
+        {progress.phase === 'fetching' && (progress.incremental ? 'Fetching posts changed since your last crawl...' : 'Retrieving posts from your WordPress site...')}
+        {progress.phase === 'analyzing' && (progress.incremental ? 'Analyzing new and updated posts...' : 'Scanning content for images and analyzing quality...')}
         {progress.phase === 'complete' && 'Ready to optimize your images!'}
         {!progress.phase && 'This may take a moment for large sites.'}
       </p>
@@ -0,0 +1,153 @@
+// components/DuplicateReportModal.tsx - Clusters of posts whose images are visually the same
+
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { WordPressPost, ImageHashEntry } from '../types';
+import { hashPostImages, clusterDuplicates } from '../services/duplicateService';
+import { XIcon, Loader, AlertTriangle, CheckCircle2, LayoutGridIcon, DownloadIcon, RefreshCwIcon } from './icons/Icons';
+
+const stripHtml = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return doc.body.textContent || '';
+};
+
+interface Props {
+  posts: WordPressPost[];
+  knownHashes: ImageHashEntry[];
+  onScanned: (entries: ImageHashEntry[]) => void;
+  onClose: () => void;
+}
+
+const DuplicateReportModal: React.FC<Props> = ({ posts, knownHashes, onScanned, onClose }) => {
+  const [entries, setEntries] = useState<ImageHashEntry[]>(knownHashes);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [failed, setFailed] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    document.body.style.overflow = 'hidden';
+    return () => {
+      document.body.style.overflow = 'auto';
+      abortRef.current?.abort();
+    };
+  }, []);
+
+  const titles = useMemo(() => new Map(posts.map(p => [p.id, stripHtml(p.title.rendered)])), [posts]);
+  const clusters = useMemo(() => clusterDuplicates(entries), [entries]);
+
+  const handleScan = useCallback(async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      setError(null);
+      setProgress({ done: 0, total: 0 });
+      const result = await hashPostImages(posts, (done, total) => setProgress({ done, total }), controller.signal);
+      // Scanned entries replace known ones for the same image; generated images never re-fetched keep their hash
+      const scanned = new Set(result.entries.map(e => `${e.postId}:${e.url}`));
+      setEntries([...knownHashes.filter(e => !scanned.has(`${e.postId}:${e.url}`)), ...result.entries]);
+      setFailed(result.failed);
+      onScanned(result.entries);
+    } catch (e) {
+      if (e instanceof DOMException && e.name === 'AbortError') return;
+      setError(e instanceof Error ? e.message : 'Scan failed.');
+    } finally {
+      setProgress(null);
+    }
+  }, [posts, knownHashes, onScanned]);
+
+  const handleExport = useCallback(() => {
+    const report = {
+      generatedAt: new Date().toISOString(),
+      imagesHashed: entries.length,
+      clusters: clusters.map(c => ({
+        maxDistance: c.maxDistance,
+        images: c.entries.map(e => ({ postId: e.postId, title: titles.get(e.postId), source: e.source, url: e.url, hash: e.hash })),
+      })),
+    };
+    const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `duplicate-images-${Date.now()}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }, [entries, clusters, titles]);
+
+  const isScanning = progress !== null;
+
+  return (
+    <div className="fixed inset-0 bg-background/90 backdrop-blur-md flex items-center justify-center z-50 p-4 animate-fade-in">
+      <div className="bg-surface rounded-2xl shadow-2xl w-full max-w-4xl border border-border max-h-[90vh] flex flex-col overflow-hidden">
+        <header className="flex justify-between items-center p-6 border-b border-border bg-surface-muted/30">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-brand-primary/10 rounded-lg"><LayoutGridIcon className="w-6 h-6 text-brand-primary"/></div>
+            <div>
+              <h2 className="text-xl font-black text-text-primary tracking-tight">Duplicate Images</h2>
+              <p className="text-xs text-muted">{entries.length} images hashed · {clusters.length} clusters shared across posts</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full text-subtle hover:bg-surface-muted hover:text-text-primary transition-colors">
+            <XIcon className="w-6 h-6" />
+          </button>
+        </header>
+
+        <div className="p-6 flex-grow overflow-y-auto space-y-4">
+          {isScanning && (
+            <div className="flex items-center gap-2 text-sm text-text-secondary">
+              <Loader className="w-4 h-4 animate-spin" /> Hashing images {progress.done}/{progress.total}...
+            </div>
+          )}
+          {failed > 0 && !isScanning && (
+            <p className="text-xs text-amber-600">{failed} images could not be read (usually missing CORS headers on the media host) and were skipped.</p>
+          )}
+          {error && (
+            <div className="flex items-center gap-2 text-sm text-red-400 bg-red-500/10 border border-red-500/20 rounded-xl p-3">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" /> {error}
+            </div>
+          )}
+
+          {clusters.length === 0 && !isScanning ? (
+            <div className="text-center py-12">
+              <CheckCircle2 className="w-10 h-10 text-emerald-500 mx-auto mb-3" />
+              <p className="text-sm font-bold text-text-primary">No shared images found</p>
+              <p className="text-xs text-muted mt-1">Scan the library to include existing featured and content images.</p>
+            </div>
+          ) : (
+            clusters.map((cluster, i) => (
+              <div key={`${cluster.hash}-${i}`} className="p-4 bg-surface-muted/50 rounded-xl border border-border space-y-3">
+                <div className="flex items-center justify-between text-xs font-bold">
+                  <span className="text-text-primary">{new Set(cluster.entries.map(e => e.postId)).size} posts</span>
+                  <span className="text-muted">{cluster.maxDistance === 0 ? 'Identical' : `Within ${cluster.maxDistance} bits`}</span>
+                </div>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                  {cluster.entries.map(entry => (
+                    <a key={`${entry.postId}:${entry.url}`} href={entry.url} target="_blank" rel="noopener noreferrer" className="block rounded-lg overflow-hidden border border-border hover:border-brand-primary transition-colors">
+                      <img src={entry.url} alt="" loading="lazy" className="w-full aspect-video object-cover bg-surface" />
+                      <div className="p-2">
+                        <p className="text-[10px] font-bold text-text-primary line-clamp-1">{titles.get(entry.postId) || `Post #${entry.postId}`}</p>
+                        <p className="text-[10px] text-muted">#{entry.postId} · {entry.source}</p>
+                      </div>
+                    </a>
+                  ))}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <footer className="p-6 border-t border-border flex justify-between gap-3 bg-surface-muted/30">
+          <button onClick={handleExport} disabled={clusters.length === 0} className="flex items-center gap-2 py-3 px-6 rounded-xl text-sm font-bold text-text-secondary hover:bg-surface-muted transition-all disabled:opacity-50">
+            <DownloadIcon className="w-4 h-4" /> Export
+          </button>
+          <button onClick={handleScan} disabled={isScanning} className="inline-flex items-center justify-center gap-2 font-bold py-3 px-8 rounded-xl text-white bg-gradient-to-br from-brand-primary to-brand-secondary shadow-lg hover:shadow-xl hover:-translate-y-0.5 transition-all disabled:opacity-50 disabled:hover:translate-y-0">
+            {isScanning ? <Loader className="w-4 h-4 animate-spin" /> : <RefreshCwIcon className="w-4 h-4" />}
+            Scan Library
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateReportModal;
@@ -1,7 +1,8 @@
 // components/FilterBar.tsx - Advanced filtering controls
 
 import React, { memo } from 'react';
-import { FilterPreset } from '../types';
+import { FilterPreset, PostFacetFilters, WordPressPostStatus } from '../types';
+import { PostFacets, FacetOption } from '../hooks/useFilteredPosts';
 import { 
   SearchIcon, 
   FilterIcon, 
@@ -35,6 +36,9 @@ interface Props {
   isProcessing: boolean;
   onStartGeneration: () => void;
   isPending: boolean;
+  facets: PostFacets;
+  facetFilters: PostFacetFilters;
+  onFacetFiltersChange: (filters: PostFacetFilters) => void;
 }
 
 const filterPresets: Array<{ id: FilterPreset; label: string; shortcut?: string }> = [
@@ -47,6 +51,27 @@ const filterPresets: Array<{ id: FilterPreset; label: string; shortcut?: string
   { id: 'errors', label: 'Errors' },
 ];
 
+const FacetSelect: React.FC<{
+  label: string;
+  options: FacetOption[];
+  value: string | number | undefined;
+  onChange: (value: string | undefined) => void;
+}> = ({ label, options, value, onChange }) => (
+  <select
+    value={value === undefined ? '' : String(value)}
+    onChange={(e) => onChange(e.target.value || undefined)}
+    className={`
+      bg-surface border rounded-xl px-3 py-2 text-xs font-medium max-w-[12rem] focus:ring-2 focus:ring-brand-primary outline-none
+      ${value !== undefined ? 'border-brand-primary text-brand-primary' : 'border-border text-text-secondary'}
+    `}
+  >
+    <option value="">All {label}</option>
+    {options.map(option => (
+      <option key={option.value} value={option.value}>{option.label} ({option.count})</option>
+    ))}
+  </select>
+);
+
 const FilterBar: React.FC<Props> = memo(({
   searchQuery,
   onSearchChange,
@@ -65,7 +90,17 @@ const FilterBar: React.FC<Props> = memo(({
   isProcessing,
   onStartGeneration,
   isPending,
+  facets,
+  facetFilters,
+  onFacetFiltersChange,
 }) => {
+  const hasFacets = facets.categories.length > 0 || facets.tags.length > 0 || facets.authors.length > 1 || facets.postStatuses.length > 1;
+  const activeFacetCount = Object.values(facetFilters).filter(v => v !== undefined).length;
+  const setFacet = (key: keyof PostFacetFilters, value: string | undefined) => {
+    const parsed = value === undefined ? undefined : key === 'postStatus' ? value as WordPressPostStatus : Number(value);
+    onFacetFiltersChange({ ...facetFilters, [key]: parsed });
+  };
+
   return (
     <div className="px-6 py-4 bg-surface-muted/30 border-b border-border space-y-4">
       {/* Top Row: Search + View Controls */}
@@ -132,6 +167,33 @@ const FilterBar: React.FC<Props> = memo(({
         </div>
       </div>
 
+      {/* Section Facets */}
+      {hasFacets && (
+        <div className="flex flex-wrap items-center gap-2">
+          <FilterIcon className="w-4 h-4 text-muted" />
+          {facets.categories.length > 0 && (
+            <FacetSelect label="categories" options={facets.categories} value={facetFilters.category} onChange={(v) => setFacet('category', v)} />
+          )}
+          {facets.tags.length > 0 && (
+            <FacetSelect label="tags" options={facets.tags} value={facetFilters.tag} onChange={(v) => setFacet('tag', v)} />
+          )}
+          {facets.authors.length > 1 && (
+            <FacetSelect label="authors" options={facets.authors} value={facetFilters.author} onChange={(v) => setFacet('author', v)} />
+          )}
+          {facets.postStatuses.length > 1 && (
+            <FacetSelect label="statuses" options={facets.postStatuses} value={facetFilters.postStatus} onChange={(v) => setFacet('postStatus', v)} />
+          )}
+          {activeFacetCount > 0 && (
+            <button
+              onClick={() => onFacetFiltersChange({})}
+              className="px-3 py-2 text-[11px] font-bold uppercase tracking-wide rounded-xl text-muted hover:text-text-primary transition-all"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Bottom Row: Filters + Actions */}
       <div className="flex flex-col xl:flex-row items-stretch xl:items-center justify-between gap-4">
         {/* Filter Presets */}
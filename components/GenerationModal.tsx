@@ -10,7 +10,8 @@ import {
   XIcon, 
   BanIcon, 
   PauseIcon, 
-  PlayIcon 
+  PlayIcon,
+  HistoryIcon
 } from './icons/Icons';
 
 interface Props {
@@ -20,6 +21,8 @@ interface Props {
   onCancelAll: () => void;
   onPause: () => void;
   onResume: () => void;
+  onRollbackBatch?: () => void; // Set once a bulk run has journaled writes to undo
+  isRollingBack?: boolean;
 }
 
 const StatusIcon: React.FC<{ status?: string }> = ({ status }) => {
@@ -42,6 +45,8 @@ const GenerationModal: React.FC<Props> = ({
   onCancelAll,
   onPause,
   onResume,
+  onRollbackBatch,
+  isRollingBack = false,
 }) => {
   const activeJobs = useMemo(
     () => posts.filter(p => p.status && !['success', 'error', 'cancelled', 'idle'].includes(p.status)),
@@ -207,6 +212,16 @@ const GenerationModal: React.FC<Props> = ({
                 Resume
               </button>
             )}
+            {!queueState.isProcessing && onRollbackBatch && completedJobs.length > 0 && (
+              <button
+                onClick={onRollbackBatch}
+                disabled={isRollingBack}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-xl text-red-500 border border-red-500/20 hover:bg-red-500/10 transition-all disabled:opacity-50"
+              >
+                {isRollingBack ? <Loader className="w-4 h-4 animate-spin" /> : <HistoryIcon className="w-4 h-4" />}
+                Roll back this batch
+              </button>
+            )}
           </div>
           <button
             onClick={onClose}
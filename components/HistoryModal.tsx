@@ -0,0 +1,171 @@
+// components/HistoryModal.tsx - Journaled changes to one post, each rolled back on its own or with its batch
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { WordPressPost, Configuration, OperationEntry, OperationKind, OperationStatus } from '../types';
+import { rollbackOperation, DEFAULT_POST_TYPE } from '../services/wordpressService';
+import { listPostOperations } from '../services/journalService';
+import { ConflictError } from '../services/errors';
+import { XIcon, Loader, AlertTriangle, HistoryIcon, ExternalLinkIcon } from './icons/Icons';
+
+interface Props {
+  post: WordPressPost;
+  config: Configuration;
+  onClose: () => void;
+  onRolledBack: (entry: OperationEntry, restored: WordPressPost | null) => void;
+  onRollbackBatch: (batchId: string) => Promise<void>;
+}
+
+const KIND_LABELS: Record<OperationKind, string> = {
+  insert_image: 'Image inserted',
+  delete_image: 'Image removed',
+  replace_image: 'Image replaced',
+  featured_image: 'Featured image',
+  alt_text: 'Alt text',
+  schema: 'Schema',
+  tldr: 'TL;DR',
+};
+
+const STATUS_STYLES: Record<OperationStatus, string> = {
+  pending: 'bg-amber-500/10 text-amber-600',
+  applied: 'bg-emerald-500/10 text-emerald-600',
+  failed: 'bg-red-500/10 text-red-500',
+  rolled_back: 'bg-surface-muted text-muted',
+};
+
+const STATUS_LABELS: Record<OperationStatus, string> = {
+  pending: 'Interrupted',
+  applied: 'Applied',
+  failed: 'Failed',
+  rolled_back: 'Rolled back',
+};
+
+const HistoryModal: React.FC<Props> = ({ post, config, onClose, onRolledBack, onRollbackBatch }) => {
+  const [entries, setEntries] = useState<OperationEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    setEntries(await listPostOperations(config.wordpress.url, post.id, post.restBase || DEFAULT_POST_TYPE.restBase));
+    setIsLoading(false);
+  }, [config.wordpress.url, post.id, post.restBase]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  useEffect(() => {
+    document.body.style.overflow = 'hidden';
+    return () => { document.body.style.overflow = 'auto'; };
+  }, []);
+
+  const handleRollback = useCallback(async (entry: OperationEntry) => {
+    try {
+      setBusyId(entry.id);
+      setError(null);
+      let restored: WordPressPost | null;
+      try {
+        restored = await rollbackOperation(config.wordpress, entry);
+      } catch (e) {
+        if (!(e instanceof ConflictError) || !confirm(`${e.message}. Roll back anyway and discard those edits?`)) throw e;
+        restored = await rollbackOperation(config.wordpress, entry, true);
+      }
+      onRolledBack(entry, restored);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Rollback failed.');
+    } finally {
+      setBusyId(null);
+      loadEntries();
+    }
+  }, [config.wordpress, onRolledBack, loadEntries]);
+
+  const handleRollbackBatch = useCallback(async (batchId: string) => {
+    try {
+      setBusyId(batchId);
+      setError(null);
+      await onRollbackBatch(batchId);
+    } finally {
+      setBusyId(null);
+      loadEntries();
+    }
+  }, [onRollbackBatch, loadEntries]);
+
+  const siteUrl = config.wordpress.url.replace(/\/$/, '');
+
+  return (
+    <div className="fixed inset-0 bg-background/90 backdrop-blur-md flex items-center justify-center z-50 p-4 animate-fade-in">
+      <div className="bg-surface rounded-2xl shadow-2xl w-full max-w-2xl border border-border max-h-[90vh] flex flex-col overflow-hidden">
+        <header className="flex justify-between items-center p-6 border-b border-border bg-surface-muted/30">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-brand-primary/10 rounded-lg"><HistoryIcon className="w-6 h-6 text-brand-primary"/></div>
+            <div>
+              <h2 className="text-xl font-black text-text-primary tracking-tight">History</h2>
+              <p className="text-xs text-muted">Changes this app made to "{post.title.rendered}", newest first</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full text-subtle hover:bg-surface-muted hover:text-text-primary transition-colors">
+            <XIcon className="w-6 h-6" />
+          </button>
+        </header>
+
+        <div className="p-6 flex-grow overflow-y-auto space-y-3">
+          {error && (
+            <div className="flex items-center gap-2 text-sm text-red-400 bg-red-500/10 border border-red-500/20 rounded-xl p-3">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" /> {error}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-12"><Loader className="w-8 h-8 animate-spin text-brand-primary" /></div>
+          ) : entries.length === 0 ? (
+            <p className="text-center text-sm text-muted py-12">No changes recorded for this post yet.</p>
+          ) : entries.map(entry => (
+            <div key={entry.id} className="p-4 bg-surface-muted/40 rounded-xl border border-border/50">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="text-xs font-bold text-text-primary">{KIND_LABELS[entry.kind]}</span>
+                    <span className={`px-2 py-0.5 rounded-md text-[10px] font-bold ${STATUS_STYLES[entry.status]}`}>{STATUS_LABELS[entry.status]}</span>
+                    {entry.batchId && <span className="px-2 py-0.5 rounded-md text-[10px] font-bold bg-brand-primary/10 text-brand-primary">Batch</span>}
+                  </div>
+                  <p className="text-sm text-text-secondary mt-1 truncate">{entry.summary}</p>
+                  <p className="text-[10px] text-muted mt-1 flex items-center gap-2">
+                    {new Date(entry.createdAt).toLocaleString()}
+                    {entry.revisionId && (
+                      <a href={`${siteUrl}/wp-admin/revision.php?revision=${entry.revisionId}`} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-brand-primary hover:underline">
+                        Revision #{entry.revisionId} <ExternalLinkIcon className="w-3 h-3" />
+                      </a>
+                    )}
+                  </p>
+                  {entry.error && <p className="text-xs text-red-500 mt-1 truncate">{entry.error}</p>}
+                </div>
+                {entry.status === 'applied' && (
+                  <div className="flex flex-col gap-2 flex-shrink-0">
+                    <button onClick={() => handleRollback(entry)} disabled={busyId !== null} className="inline-flex items-center justify-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold border border-border hover:border-brand-primary hover:text-brand-primary transition-all disabled:opacity-50">
+                      {busyId === entry.id && <Loader className="w-3 h-3 animate-spin" />}
+                      Roll back
+                    </button>
+                    {entry.batchId && (
+                      <button onClick={() => handleRollbackBatch(entry.batchId!)} disabled={busyId !== null} className="inline-flex items-center justify-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold text-red-500 border border-red-500/20 hover:bg-red-500/10 transition-all disabled:opacity-50">
+                        {busyId === entry.batchId && <Loader className="w-3 h-3 animate-spin" />}
+                        Roll back batch
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <footer className="p-6 border-t border-border flex justify-end bg-surface-muted/30">
+          <button onClick={onClose} className="py-3 px-6 rounded-xl text-sm font-bold text-text-secondary hover:bg-surface-muted transition-all">
+            Close
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryModal;
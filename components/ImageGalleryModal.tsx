@@ -4,7 +4,10 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { WordPressPost, ContentImage, InsertionPoint, Configuration } from '../types';
 import { deleteContentImage, replaceContentImage, uploadImage } from '../services/wordpressService';
-import { generateImage } from '../services/aiService';
+import { generateImageWithProvenance } from '../services/aiService';
+import { buildProvenanceDescription } from '../services/provenanceService';
+import { buildPlacementPlan } from '../services/placementService';
+import { processGeneratedImage, describeTranscode } from '../services/imageProcessingService';
 import { 
   XIcon, 
   ImageIcon, 
@@ -91,37 +94,19 @@ const ImageGalleryModal: React.FC<Props> = ({
     return images;
   }, [post.content.rendered, post.link]);
 
-  // Find gaps in content
+  // Placement engine output from the crawl; recomputed once content changes under us (deletes, replacements)
   const insertionPoints = useMemo<InsertionPoint[]>(() => {
-    const doc = new DOMParser().parseFromString(post.content.rendered, 'text/html');
-    const paragraphs = doc.querySelectorAll('p, h2, h3');
-    const points: InsertionPoint[] = [];
-    
-    let lastImageIndex = -1;
-    paragraphs.forEach((p, index) => {
-      const hasImage = p.querySelector('img') || (p.nextElementSibling?.tagName === 'FIGURE');
-      if (hasImage) {
-        lastImageIndex = index;
-      } else if (index - lastImageIndex > 3 && p.textContent && p.textContent.length > 100) {
-        points.push({
-          paragraphIndex: index,
-          afterElement: p.tagName.toLowerCase() as any,
-          position: index,
-          context: p.textContent.slice(0, 100) + '...',
-          recommended: index - lastImageIndex > 5,
-          reason: `${index - lastImageIndex} paragraphs since last image`,
-        });
-      }
-    });
-    
-    return points;
-  }, [post.content.rendered]);
+    if (post.imageAnalysis?.insertionPoints?.length && post.imageCount === contentImages.length) {
+      return post.imageAnalysis.insertionPoints;
+    }
+    return buildPlacementPlan(post.content.raw || post.content.rendered, contentImages.length, post.wordCount).insertionPoints;
+  }, [post.content.raw, post.content.rendered, post.imageAnalysis, post.imageCount, post.wordCount, contentImages.length]);
 
   const hasFeatured = post.featured_media > 0 || !!post.generatedImage;
 
   // Actions
   const handleDeleteImage = useCallback(async (image: ContentImage) => {
-    if (!confirm('Are you sure you want to remove this image from the post content? This cannot be undone.')) return;
+    if (!confirm('Are you sure you want to remove this image from the post content? You can roll this back later from the post\'s History.')) return;
     
     setProcessingImage(image.src);
     try {
@@ -151,12 +136,15 @@ const ImageGalleryModal: React.FC<Props> = ({
     try {
         // 1. Generate new image
         const fullPrompt = `${replacementPrompt}. Style: ${config.image.style}`;
-        const dataUrl = await generateImage(config.ai.image, fullPrompt, config.image);
+        const { dataUrl, provenance } = await generateImageWithProvenance(config.ai.image, fullPrompt, config.image);
 
-        // 2. Upload
-        const fileExt = config.image.format.split('/')[1] || 'webp';
-        const fileName = `replaced-${Date.now()}.${fileExt}`;
-        const media = await uploadImage(config.wordpress, dataUrl, fileName, replacementPrompt, replacementPrompt);
+        // 2. Re-encode to the configured format and upload
+        const processed = await processGeneratedImage(dataUrl, config.image, { watermark: !post.skipWatermark });
+        const fileName = `replaced-${Date.now()}.${processed.extension}`;
+        const media = await uploadImage(
+            config.wordpress, processed.dataUrl, fileName, replacementPrompt, replacementPrompt, undefined,
+            buildProvenanceDescription(provenance), { settings: config.image.metadata, provenance }
+        );
 
         // 3. Replace in Content
         const updatedPost = await replaceContentImage(
@@ -164,13 +152,14 @@ const ImageGalleryModal: React.FC<Props> = ({
             post, 
             replacingImage.src, 
             media.source_url, 
-            replacementPrompt
+            replacementPrompt,
+            media.id
         );
 
         onPostUpdate({
             ...updatedPost,
             status: 'success',
-            statusMessage: 'Image replaced'
+            statusMessage: `Image replaced (${describeTranscode(processed)})`
         });
         setReplacingImage(null);
     } catch (e: any) {
@@ -287,6 +276,9 @@ const ImageGalleryModal: React.FC<Props> = ({
                           )}
                         </div>
                         <p className="text-xs text-text-secondary line-clamp-2 leading-relaxed opacity-80">{point.context}</p>
+                        {point.reason && (
+                          <p className="text-[10px] text-muted mt-1">{point.reason}</p>
+                        )}
                       </button>
                     ))}
                   </div>
@@ -309,7 +301,10 @@ const ImageGalleryModal: React.FC<Props> = ({
                   <h4 className="text-lg font-bold text-text-primary">No Images Found in Content</h4>
                   <p className="text-sm text-muted mt-1 mb-6">This post text is looking a bit plain.</p>
                   <button
-                    onClick={() => insertionPoints[0] && onInsertImage(insertionPoints[0])}
+                    onClick={() => {
+                      const point = insertionPoints.find(p => p.recommended) || insertionPoints[0];
+                      if (point) onInsertImage(point);
+                    }}
                     className="flex items-center gap-2 px-5 py-2.5 bg-brand-primary text-white rounded-xl font-bold shadow-lg shadow-brand-primary/20 hover:-translate-y-0.5 transition-all"
                   >
                     <PlusCircleIcon className="w-5 h-5" />
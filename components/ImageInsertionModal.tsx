@@ -1,7 +1,9 @@
 // components/ImageInsertionModal.tsx - Insert images into post content
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { WordPressPost, Configuration, InsertionPoint } from '../types';
+import { buildPlacementPlan, getContentWithImagePlaceholder, PLACEHOLDER_ID_PREFIX } from '../services/placementService';
+import { analyzeImagePlacement } from '../services/aiService';
 import { 
   XIcon, 
   SparklesIcon, 
@@ -24,29 +26,45 @@ const ImageInsertionModal: React.FC<Props> = ({ post, config, onClose, onInsert
   const [imagePrompt, setImagePrompt] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
   const [suggestedPrompts, setSuggestedPrompts] = useState<string[]>([]);
+  const [isRanking, setIsRanking] = useState(false);
+  const rankAbortRef = useRef<AbortController | null>(null);
 
-  // Parse content for insertion points
-  const insertionPoints = React.useMemo<InsertionPoint[]>(() => {
-    const doc = new DOMParser().parseFromString(post.content.rendered, 'text/html');
-    const elements = doc.querySelectorAll('p, h2, h3, ul, ol, blockquote');
-    const points: InsertionPoint[] = [];
-    
-    elements.forEach((el, index) => {
-      const text = el.textContent || '';
-      if (text.length > 50) {
-        points.push({
-          paragraphIndex: index,
-          afterElement: el.tagName.toLowerCase() as any,
-          position: index,
-          context: text.slice(0, 150) + (text.length > 150 ? '...' : ''),
-          recommended: el.tagName === 'H2' || el.tagName === 'H3',
-          reason: el.tagName.match(/^H[23]$/) ? 'After heading' : undefined,
-        });
-      }
-    });
-    
-    return points;
-  }, [post.content.rendered]);
+  // Structural pass from the crawl; recomputed when the post predates it
+  const [insertionPoints, setInsertionPoints] = useState<InsertionPoint[]>(() =>
+    post.imageAnalysis?.insertionPoints?.length
+      ? post.imageAnalysis.insertionPoints
+      : buildPlacementPlan(post.content.raw || post.content.rendered, post.imageCount, post.wordCount).insertionPoints
+  );
+
+  useEffect(() => () => rankAbortRef.current?.abort(), []);
+
+  // Sandboxed without scripts: the stored markup is rendered as-is, and allow-same-origin only lets us scroll it
+  const previewHtml = useMemo(() => {
+    if (!selectedPoint) return '';
+    const body = getContentWithImagePlaceholder(post.content.raw || post.content.rendered, [selectedPoint]);
+    return `<!doctype html><html><head><style>body{font-family:Georgia,serif;line-height:1.6;color:#1f2937;padding:0 1.5em;max-width:720px;margin:0 auto}img{max-width:100%;height:auto}</style></head><body>${body}</body></html>`;
+  }, [post.content.raw, post.content.rendered, selectedPoint]);
+
+  const scrollPreviewToPlaceholder = useCallback((e: React.SyntheticEvent<HTMLIFrameElement>) => {
+    if (!selectedPoint) return;
+    e.currentTarget.contentDocument
+      ?.getElementById(`${PLACEHOLDER_ID_PREFIX}${selectedPoint.paragraphIndex}`)
+      ?.scrollIntoView({ block: 'center' });
+  }, [selectedPoint]);
+
+  const handleRankWithAI = useCallback(async () => {
+    rankAbortRef.current?.abort();
+    const controller = new AbortController();
+    rankAbortRef.current = controller;
+    try {
+      setIsRanking(true);
+      setInsertionPoints(await analyzeImagePlacement(post, config.ai.analysis, config.seo, controller.signal));
+    } catch (error) {
+      if (!(error instanceof DOMException && error.name === 'AbortError')) console.error('Placement ranking failed:', error);
+    } finally {
+      setIsRanking(false);
+    }
+  }, [post, config]);
 
   // Generate AI suggested prompts based on content context
   const generateSuggestions = useCallback(async (point: InsertionPoint) => {
@@ -109,9 +127,21 @@ const ImageInsertionModal: React.FC<Props> = ({ post, config, onClose, onInsert
           {/* Step 1: Select Position */}
           {step === 'position' && (
             <div className="space-y-4">
-              <p className="text-sm text-text-secondary mb-4">
-                Choose where in the content you want to insert the new image:
-              </p>
+              <div className="flex items-center justify-between gap-4 mb-4">
+                <p className="text-sm text-text-secondary">
+                  Choose where in the content you want to insert the new image:
+                </p>
+                {insertionPoints.length > 0 && (
+                  <button
+                    onClick={handleRankWithAI}
+                    disabled={isRanking}
+                    className="flex-shrink-0 flex items-center gap-2 px-3 py-1.5 text-xs font-bold text-brand-primary border border-brand-primary/30 rounded-lg hover:bg-brand-primary/10 transition-colors disabled:opacity-50"
+                  >
+                    {isRanking ? <Loader className="w-3 h-3 animate-spin" /> : <WandIcon className="w-3 h-3" />}
+                    Rank with AI
+                  </button>
+                )}
+              </div>
               
               <div className="space-y-2 max-h-[50vh] overflow-y-auto pr-2">
                 {insertionPoints.map((point, i) => (
@@ -141,6 +171,9 @@ const ImageInsertionModal: React.FC<Props> = ({ post, config, onClose, onInsert
                       )}
                     </div>
                     <p className="text-sm text-text-secondary line-clamp-2">{point.context}</p>
+                    {point.reason && (
+                      <p className="text-xs text-muted mt-2">{point.reason}</p>
+                    )}
                   </button>
                 ))}
               </div>
@@ -163,6 +196,18 @@ const ImageInsertionModal: React.FC<Props> = ({ post, config, onClose, onInsert
                 <p className="text-sm text-text-secondary">{selectedPoint.context}</p>
               </div>
 
+              {/* Placement Preview */}
+              <div className="space-y-2">
+                <p className="text-xs font-bold uppercase tracking-wide text-muted">Placement preview</p>
+                <iframe
+                  title="Placement preview"
+                  srcDoc={previewHtml}
+                  sandbox="allow-same-origin"
+                  onLoad={scrollPreviewToPlaceholder}
+                  className="w-full h-72 rounded-xl border border-border bg-white"
+                />
+              </div>
+
               {/* Prompt Input */}
               <div className="space-y-2">
                 <label className="text-sm font-bold text-text-primary">Image Description</label>
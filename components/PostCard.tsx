@@ -11,7 +11,13 @@ import {
   Loader,
   GalleryIcon,
   PlusCircleIcon,
-  EyeIcon
+  EyeIcon,
+  CodeIcon,
+  StampIcon,
+  ListChecks,
+  RefreshCwIcon,
+  WandIcon,
+  HistoryIcon
 } from './icons/Icons';
 
 interface Props {
@@ -23,6 +29,14 @@ interface Props {
   onGenerate: () => void;
   onViewGallery: () => void;
   onInsertImage: () => void;
+  onGenerateSchema: () => void;
+  onRemoveSchema: () => void;
+  onOpenTldr: () => void;
+  onOpenHistory: () => void;
+  onPickVariant: () => void;
+  onRegenerate: (mode: 'same-seed' | 'vary') => void;
+  watermarkEnabled?: boolean;
+  onToggleWatermark?: () => void;
   viewMode?: 'grid' | 'list' | 'compact';
 }
 
@@ -38,6 +52,7 @@ const StatusBadge: React.FC<{ status?: JobStatus; message?: string }> = memo(({
     success: { bg: 'bg-emerald-500/10', text: 'text-emerald-600', icon: <CheckCircle2 className="w-3 h-3" /> },
     error: { bg: 'bg-red-500/10', text: 'text-red-500', icon: <AlertTriangle className="w-3 h-3" /> },
     cancelled: { bg: 'bg-amber-500/10', text: 'text-amber-600' },
+    awaiting_selection: { bg: 'bg-amber-500/10', text: 'text-amber-600', icon: <GalleryIcon className="w-3 h-3" /> },
   };
 
   const config = configs[status] || { 
@@ -78,12 +93,22 @@ const PostCard: React.FC<Props> = memo(({
   onGenerate,
   onViewGallery,
   onInsertImage,
+  onGenerateSchema,
+  onRemoveSchema,
+  onOpenTldr,
+  onOpenHistory,
+  onPickVariant,
+  onRegenerate,
+  watermarkEnabled = false,
+  onToggleWatermark,
   viewMode = 'grid'
 }) => {
   const needsImage = post.featured_media === 0 && !post.generatedImage;
   const displayImageUrl = post.generatedImage?.url || post.existingImageUrl;
-  const isPending = isProcessing || (post.status && !['idle', 'success', 'error', 'cancelled'].includes(post.status));
+  const isPending = isProcessing || (post.status && !['idle', 'success', 'error', 'cancelled', 'awaiting_selection'].includes(post.status));
+  const isAwaitingSelection = post.status === 'awaiting_selection' && !isProcessing;
   const title = stripHtml(post.title.rendered);
+  const provenance = post.generatedImage?.provenance;
   const hasFeatured = post.featured_media > 0 || !!post.generatedImage;
 
   const handleClick = useCallback((e: React.MouseEvent) => {
@@ -132,12 +157,51 @@ const PostCard: React.FC<Props> = memo(({
           <button onClick={onInsertImage} className="p-2 rounded-lg hover:bg-surface-muted" title="Insert image">
             <PlusCircleIcon className="w-4 h-4" />
           </button>
+          <button
+            onClick={post.generatedSchema ? onRemoveSchema : onGenerateSchema}
+            disabled={isPending}
+            className={`p-2 rounded-lg hover:bg-surface-muted disabled:opacity-50 ${post.generatedSchema ? 'text-emerald-600' : ''}`}
+            title={post.generatedSchema ? 'Remove JSON-LD schema' : 'Add JSON-LD schema'}
+          >
+            <CodeIcon className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onOpenTldr}
+            disabled={isPending}
+            className={`p-2 rounded-lg hover:bg-surface-muted disabled:opacity-50 ${post.tldr ? 'text-emerald-600' : ''}`}
+            title={post.tldr ? 'Edit TL;DR' : 'Add TL;DR'}
+          >
+            <ListChecks className="w-4 h-4" />
+          </button>
+          <button onClick={onOpenHistory} className="p-2 rounded-lg hover:bg-surface-muted" title="History and rollback">
+            <HistoryIcon className="w-4 h-4" />
+          </button>
+          {watermarkEnabled && (
+            <button
+              onClick={onToggleWatermark}
+              disabled={isPending}
+              className={`p-2 rounded-lg hover:bg-surface-muted disabled:opacity-50 ${post.skipWatermark ? 'text-muted' : 'text-emerald-600'}`}
+              title={post.skipWatermark ? 'Watermark skipped for this post' : 'Watermark applied to new images'}
+            >
+              <StampIcon className="w-4 h-4" />
+            </button>
+          )}
+          {provenance && (
+            <>
+              <button onClick={() => onRegenerate('same-seed')} disabled={isPending || provenance.seed === undefined} className="p-2 rounded-lg hover:bg-surface-muted disabled:opacity-50" title={provenance.seed !== undefined ? `Regenerate with seed ${provenance.seed}` : 'Provider has no seed control'}>
+                <RefreshCwIcon className="w-4 h-4" />
+              </button>
+              <button onClick={() => onRegenerate('vary')} disabled={isPending} className="p-2 rounded-lg hover:bg-surface-muted disabled:opacity-50" title="Vary this image (same prompt, new seed)">
+                <WandIcon className="w-4 h-4" />
+              </button>
+            </>
+          )}
           <button 
-            onClick={onGenerate} 
+            onClick={isAwaitingSelection ? onPickVariant : onGenerate} 
             disabled={isPending}
-            className="px-3 py-1.5 text-xs font-bold rounded-lg bg-brand-primary text-white disabled:opacity-50"
+            className={`px-3 py-1.5 text-xs font-bold rounded-lg text-white disabled:opacity-50 ${isAwaitingSelection ? 'bg-amber-500' : 'bg-brand-primary'}`}
           >
-            {isPending ? <Loader className="w-3 h-3 animate-spin" /> : 'Generate'}
+            {isPending ? <Loader className="w-3 h-3 animate-spin" /> : isAwaitingSelection ? 'Choose' : 'Generate'}
           </button>
         </div>
       </article>
@@ -203,6 +267,59 @@ const PostCard: React.FC<Props> = memo(({
           >
             <PlusCircleIcon className="w-4 h-4" />
           </button>
+          <button 
+            onClick={(e) => { e.stopPropagation(); post.generatedSchema ? onRemoveSchema() : onGenerateSchema(); }}
+            disabled={isPending}
+            className={`p-1.5 rounded-lg backdrop-blur-md text-white transition-colors disabled:opacity-50 ${post.generatedSchema ? 'bg-emerald-600/70 hover:bg-emerald-600/90' : 'bg-black/50 hover:bg-black/70'}`}
+            title={post.generatedSchema ? 'Remove JSON-LD schema' : 'Add JSON-LD schema'}
+          >
+            <CodeIcon className="w-4 h-4" />
+          </button>
+          <button 
+            onClick={(e) => { e.stopPropagation(); onOpenTldr(); }}
+            disabled={isPending}
+            className={`p-1.5 rounded-lg backdrop-blur-md text-white transition-colors disabled:opacity-50 ${post.tldr ? 'bg-emerald-600/70 hover:bg-emerald-600/90' : 'bg-black/50 hover:bg-black/70'}`}
+            title={post.tldr ? 'Edit TL;DR' : 'Add TL;DR'}
+          >
+            <ListChecks className="w-4 h-4" />
+          </button>
+          <button 
+            onClick={(e) => { e.stopPropagation(); onOpenHistory(); }}
+            className="p-1.5 rounded-lg bg-black/50 backdrop-blur-md text-white hover:bg-black/70 transition-colors"
+            title="History and rollback"
+          >
+            <HistoryIcon className="w-4 h-4" />
+          </button>
+          {watermarkEnabled && (
+            <button 
+              onClick={(e) => { e.stopPropagation(); onToggleWatermark?.(); }}
+              disabled={isPending}
+              className={`p-1.5 rounded-lg backdrop-blur-md text-white transition-colors disabled:opacity-50 ${post.skipWatermark ? 'bg-black/50 hover:bg-black/70 opacity-60' : 'bg-emerald-600/70 hover:bg-emerald-600/90'}`}
+              title={post.skipWatermark ? 'Watermark skipped for this post' : 'Watermark applied to new images'}
+            >
+              <StampIcon className="w-4 h-4" />
+            </button>
+          )}
+          {provenance && (
+            <>
+              <button 
+                onClick={(e) => { e.stopPropagation(); onRegenerate('same-seed'); }}
+                disabled={isPending || provenance.seed === undefined}
+                className="p-1.5 rounded-lg bg-black/50 backdrop-blur-md text-white hover:bg-black/70 transition-colors disabled:opacity-50"
+                title={provenance.seed !== undefined ? `Regenerate with seed ${provenance.seed}` : 'Provider has no seed control'}
+              >
+                <RefreshCwIcon className="w-4 h-4" />
+              </button>
+              <button 
+                onClick={(e) => { e.stopPropagation(); onRegenerate('vary'); }}
+                disabled={isPending}
+                className="p-1.5 rounded-lg bg-black/50 backdrop-blur-md text-white hover:bg-black/70 transition-colors disabled:opacity-50"
+                title="Vary this image (same prompt, new seed)"
+              >
+                <WandIcon className="w-4 h-4" />
+              </button>
+            </>
+          )}
         </div>
 
         {/* Processing Indicator */}
@@ -262,18 +379,20 @@ const PostCard: React.FC<Props> = memo(({
         <div className="p-3 bg-surface-muted/30 border-t border-border/50 mt-auto">
           <button
             disabled={isPending}
-            onClick={(e) => { e.stopPropagation(); onGenerate(); }}
+            onClick={(e) => { e.stopPropagation(); isAwaitingSelection ? onPickVariant() : onGenerate(); }}
             className={`
               w-full flex items-center justify-center gap-2 py-2 px-4 rounded-xl 
               text-xs font-bold uppercase tracking-wide transition-all
               ${isPending
                 ? 'bg-surface-muted text-muted cursor-not-allowed'
-                : 'text-white bg-gradient-to-r from-brand-primary to-brand-secondary shadow-md hover:shadow-lg hover:-translate-y-0.5'
+                : isAwaitingSelection
+                  ? 'text-white bg-amber-500 shadow-md hover:shadow-lg hover:-translate-y-0.5'
+                  : 'text-white bg-gradient-to-r from-brand-primary to-brand-secondary shadow-md hover:shadow-lg hover:-translate-y-0.5'
               }
             `}
           >
-            <SparklesIcon className="w-4 h-4" />
-            <span>{post.generatedImage ? 'Regenerate' : 'Generate Featured'}</span>
+            {isAwaitingSelection ? <GalleryIcon className="w-4 h-4" /> : <SparklesIcon className="w-4 h-4" />}
+            <span>{isAwaitingSelection ? 'Choose Variant' : post.generatedImage ? 'Regenerate' : 'Generate Featured'}</span>
           </button>
         </div>
       )}
@@ -287,6 +406,10 @@ const PostCard: React.FC<Props> = memo(({
     prevProps.post.featured_media === nextProps.post.featured_media &&
     prevProps.post.imageCount === nextProps.post.imageCount &&
     prevProps.post.generatedImage?.url === nextProps.post.generatedImage?.url &&
+    prevProps.post.generatedSchema === nextProps.post.generatedSchema &&
+    prevProps.post.tldr === nextProps.post.tldr &&
+    prevProps.post.skipWatermark === nextProps.post.skipWatermark &&
+    prevProps.watermarkEnabled === nextProps.watermarkEnabled &&
     prevProps.isSelected === nextProps.isSelected &&
     prevProps.isFocused === nextProps.isFocused &&
     prevProps.isProcessing === nextProps.isProcessing &&
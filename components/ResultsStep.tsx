@@ -11,15 +11,21 @@ import React, {
   Suspense,
   lazy
 } from 'react';
-import { WordPressPost, Configuration, JobStatus, FilterPreset, AppStats, InsertionPoint } from '../types';
+import { WordPressPost, Configuration, JobStatus, FilterPreset, AppStats, InsertionPoint, Job, ImageBrief, ImageVariant, SocialImage, SeoPlugin, ImageHashEntry, ImagePlaceholder, PostFacetFilters, SiteTaxonomies, OperationEntry } from '../types';
 import PostCard from './PostCard';
 import PostCardSkeleton from './PostCardSkeleton';
 import GenerationModal from './GenerationModal';
 import StatsBar from './StatsBar';
 import FilterBar from './FilterBar';
 import { ErrorBoundary } from './ErrorBoundary';
-import { generateImageBrief, generateImage, analyzeImagePlacement } from '../services/aiService';
-import { uploadImage, updatePost, updatePostContent } from '../services/wordpressService';
+import { generateImageBrief, generateImageWithProvenance, getReproductionConfig, analyzeImagePlacement, generateSchemaForPost, buildVariantPrompts } from '../services/aiService';
+import { uploadImage, setFeaturedImage, updatePostContent, updatePostSchema, detectSeoPlugin, updateSocialMeta, updateMediaPlaceholder, fetchSiteTaxonomies, rollbackBatch } from '../services/wordpressService';
+import { createBatchId, pruneOperations } from '../services/journalService';
+import { processGeneratedImage, describeTranscode, scoreImage, createSocialVariants, computePlaceholder, SOCIAL_FORMATS } from '../services/imageProcessingService';
+import { buildProvenanceDescription, hashImageSettings } from '../services/provenanceService';
+import { computeImageHash, findNearDuplicate } from '../services/duplicateService';
+import { ValidationError } from '../services/errors';
+import { getImageProvider } from '../services/providerRegistry';
 import { useJobQueue, QueueJob } from '../hooks/useJobQueue';
 import { usePersistence } from '../hooks/usePersistence';
 import { useFilteredPosts, FilterMode } from '../hooks/useFilteredPosts';
@@ -36,13 +42,21 @@ import {
   GalleryIcon,
   DownloadIcon,
   RefreshCwIcon,
-  ChevronUpIcon
+  ChevronUpIcon,
+  LayoutGridIcon
 } from './icons/Icons';
 
 // Lazy load modals
 const ImageGalleryModal = lazy(() => import('./ImageGalleryModal'));
 const ImageInsertionModal = lazy(() => import('./ImageInsertionModal'));
 const BulkActionsModal = lazy(() => import('./BulkActionsModal'));
+const TldrModal = lazy(() => import('./TldrModal'));
+const VariantPickerModal = lazy(() => import('./VariantPickerModal'));
+const DuplicateReportModal = lazy(() => import('./DuplicateReportModal'));
+const HistoryModal = lazy(() => import('./HistoryModal'));
+
+// Fresh seeds tried when "regenerate" mode rejects a near-duplicate before uploading it anyway (flagged)
+const MAX_DUPLICATE_RETRIES = 2;
 
 interface Props {
   initialPosts: WordPressPost[];
@@ -79,7 +93,15 @@ const ResultsStep: React.FC<Props> = ({
   // Modal states
   const [galleryPost, setGalleryPost] = useState<WordPressPost | null>(null);
   const [insertionPost, setInsertionPost] = useState<WordPressPost | null>(null);
+  const [tldrPost, setTldrPost] = useState<WordPressPost | null>(null);
+  const [historyPost, setHistoryPost] = useState<WordPressPost | null>(null);
+  const [variantPostId, setVariantPostId] = useState<number | null>(null);
   const [showBulkActions, setShowBulkActions] = useState(false);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+
+  // Latest bulk run, offered for rollback once its queue drains
+  const [lastBatchId, setLastBatchId] = useState<string | null>(null);
+  const [isRollingBack, setIsRollingBack] = useState(false);
   
   // Filter state
   const [filterPreset, setFilterPreset] = useState<FilterPreset>('all');
@@ -88,6 +110,8 @@ const ResultsStep: React.FC<Props> = ({
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
   const [minImages, setMinImages] = useState<number>(0);
   const [maxImages, setMaxImages] = useState<number>(100);
+  const [facetFilters, setFacetFilters] = useState<PostFacetFilters>({});
+  const [taxonomies, setTaxonomies] = useState<SiteTaxonomies | null>(null);
   
   // Virtualization state
   const containerRef = useRef<HTMLDivElement>(null);
@@ -109,7 +133,7 @@ const ResultsStep: React.FC<Props> = ({
   // ============================================================
   // ADVANCED FILTERING with pre-computed indexes
   // ============================================================
-  const { filteredPosts, filteredCount, totalCount, stats } = useFilteredPosts({
+  const { filteredPosts, filteredCount, totalCount, stats, facets } = useFilteredPosts({
     posts,
     filterMode: deferredFilterPreset as FilterMode,
     searchQuery: deferredSearchQuery,
@@ -117,8 +141,21 @@ const ResultsStep: React.FC<Props> = ({
     sortDirection,
     minImages,
     maxImages,
+    facetFilters,
+    taxonomies,
   });
 
+  // Term and author names for the section filters; posts only carry ids
+  React.useEffect(() => {
+    const controller = new AbortController();
+    fetchSiteTaxonomies(config.wordpress.url, config.wordpress.username, config.wordpress.appPassword, controller.signal)
+      .then(setTaxonomies)
+      .catch(e => {
+        if (!controller.signal.aborted) console.warn('Could not load taxonomies for filters:', e);
+      });
+    return () => controller.abort();
+  }, [config.wordpress.url, config.wordpress.username, config.wordpress.appPassword]);
+
   // ============================================================
   // VIRTUALIZATION - Only render visible cards
   // ============================================================
@@ -221,6 +258,10 @@ const ResultsStep: React.FC<Props> = ({
     'escape': () => {
       setGalleryPost(null);
       setInsertionPost(null);
+      setTldrPost(null);
+      setHistoryPost(null);
+      setVariantPostId(null);
+      setShowDuplicates(false);
       setShowBulkActions(false);
     },
     '/': (e) => {
@@ -265,42 +306,251 @@ const ResultsStep: React.FC<Props> = ({
   // ============================================================
   // JOB PROCESSING - Featured Image Generation
   // ============================================================
-  const processJob = useCallback(async (
-    job: QueueJob<WordPressPost>,
-    signal: AbortSignal
+  // Candidates wait here (in memory only, data URLs are too large to persist) until one is picked or discarded
+  const pendingVariantsRef = useRef(new Map<number, { brief: ImageBrief; variants: ImageVariant[] }>());
+
+  // Known image hashes keyed by post and URL: generated images (persisted with the post) plus library scans
+  const hashIndexRef = useRef(new Map<string, ImageHashEntry>());
+  React.useEffect(() => {
+    posts.forEach(p => {
+      const image = p.generatedImage;
+      if (image?.hash) hashIndexRef.current.set(`${p.id}:${image.url}`, { postId: p.id, url: image.url, hash: image.hash, source: 'featured' });
+    });
+  }, [posts]);
+
+  const handleHashesScanned = useCallback((entries: ImageHashEntry[]) => {
+    entries.forEach(e => hashIndexRef.current.set(`${e.postId}:${e.url}`, e));
+  }, []);
+
+  // Hashes every new image (so later checks and reports see it) but only reports a match when checking is on
+  const checkDuplicate = useCallback(async (postId: number, dataUrl: string): Promise<{ hash?: string; duplicateOf?: number }> => {
+    try {
+      const hash = await computeImageHash(dataUrl);
+      if (config.image.duplicateCheck === 'off') return { hash };
+      const match = findNearDuplicate(hash, postId, hashIndexRef.current.values());
+      return match ? { hash, duplicateOf: match.postId } : { hash };
+    } catch (error) {
+      console.warn(`Could not hash image for post ${postId}:`, error);
+      return {};
+    }
+  }, [config.image.duplicateCheck]);
+
+  // Social crops are extras: a failure here is reported in the summary but never fails the featured image
+  const publishSocialVariants = useCallback(async (
+    post: WordPressPost,
+    brief: ImageBrief,
+    image: Pick<ImageVariant, 'dataUrl' | 'unstampedDataUrl'>,
+    signal?: AbortSignal
+  ): Promise<{ social: SocialImage[]; plugin?: SeoPlugin; note: string }> => {
+    try {
+      updatePostState(post.id, { status: 'uploading', statusMessage: 'Uploading social share variants...' });
+      const variants = await createSocialVariants(image.unstampedDataUrl || image.dataUrl, config.image, { watermark: !!image.unstampedDataUrl });
+      const social: SocialImage[] = [];
+      for (const variant of variants) {
+        const { label } = SOCIAL_FORMATS[variant.platform];
+        const fileName = `${brief.filenameSlug}-${variant.platform}-${Date.now()}.${variant.extension}`;
+        const media = await uploadImage(
+          config.wordpress, variant.dataUrl, fileName, brief.altText, `${label} share image`, signal, undefined,
+          { settings: config.image.metadata }
+        );
+        social.push({ platform: variant.platform, mediaId: media.id, url: media.source_url, width: variant.width, height: variant.height });
+      }
+
+      const plugin = await detectSeoPlugin(config.wordpress, signal);
+      if (!plugin) return { social, note: 'social variants uploaded, no SEO plugin detected' };
+      const written = await updateSocialMeta(config.wordpress, post, plugin, social, signal);
+      const pluginName = plugin === 'yoast' ? 'Yoast' : 'Rank Math';
+      return written
+        ? { social, plugin, note: `social meta set in ${pluginName}` }
+        : { social, note: `social variants uploaded, ${pluginName} fields not writable over REST` };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn(`Social variants failed for post ${post.id}:`, error);
+      return { social: [], note: 'social variants failed' };
+    }
+  }, [config, updatePostState]);
+
+  // Placeholders are a performance nicety: failures are logged and the upload carries on without one
+  const attachPlaceholder = useCallback(async (mediaId: number, dataUrl: string, signal?: AbortSignal): Promise<ImagePlaceholder | undefined> => {
+    try {
+      const placeholder = await computePlaceholder(dataUrl);
+      await updateMediaPlaceholder(config.wordpress, mediaId, placeholder, signal);
+      return placeholder;
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn(`Placeholder failed for media ${mediaId}:`, error);
+      return undefined;
+    }
+  }, [config]);
+
+  const publishFeaturedImage = useCallback(async (
+    post: WordPressPost,
+    brief: ImageBrief,
+    image: Pick<ImageVariant, 'dataUrl' | 'extension' | 'width' | 'height' | 'provenance' | 'hash' | 'duplicateOf' | 'watermarked' | 'unstampedDataUrl'>,
+    summary: string,
+    signal?: AbortSignal,
+    batchId?: string
+  ): Promise<void> => {
+    if (image.duplicateOf !== undefined) summary = `${summary}, looks like post #${image.duplicateOf}`;
+    updatePostState(post.id, { status: 'uploading', statusMessage: `Uploading to WordPress (${summary})...` });
+    const fileName = `${brief.filenameSlug}-${Date.now()}.${image.extension}`;
+    const media = await uploadImage(
+      config.wordpress, image.dataUrl, fileName, brief.altText, brief.caption, signal,
+      buildProvenanceDescription(image.provenance),
+      { settings: config.image.metadata, provenance: image.provenance }
+    );
+
+    updatePostState(post.id, { status: 'setting_featured', statusMessage: 'Setting featured image...' });
+    await setFeaturedImage(config.wordpress, post, media.id, signal, batchId);
+
+    const placeholder = await attachPlaceholder(media.id, image.dataUrl, signal);
+    const social = config.image.socialVariants ? await publishSocialVariants(post, brief, image, signal) : null;
+
+    if (image.hash) {
+      hashIndexRef.current.forEach((entry, key) => {
+        if (entry.postId === post.id && entry.source === 'featured') hashIndexRef.current.delete(key);
+      });
+      hashIndexRef.current.set(`${post.id}:${media.source_url}`, { postId: post.id, url: media.source_url, hash: image.hash, source: 'featured' });
+    }
+
+    updatePostState(post.id, {
+      status: 'success',
+      statusMessage: `Complete ✓ ${summary}${social ? `, ${social.note}` : ''}`,
+      featured_media: media.id,
+      existingImageUrl: media.source_url,
+      generatedImage: {
+        url: media.source_url,
+        alt: brief.altText,
+        mediaId: media.id,
+        brief: brief.brief,
+        caption: brief.caption,
+        filenameSlug: brief.filenameSlug,
+        width: image.width,
+        height: image.height,
+        provenance: image.provenance,
+        ...(image.hash ? { hash: image.hash } : {}),
+        ...(image.duplicateOf !== undefined ? { duplicateOf: image.duplicateOf } : {}),
+        ...(placeholder ? { placeholder } : {}),
+        ...(image.watermarked ? { watermarked: true } : {}),
+        ...(social?.social.length ? { social: social.social } : {}),
+        ...(social?.plugin ? { socialMetaPlugin: social.plugin } : {}),
+      },
+    });
+  }, [config, updatePostState, publishSocialVariants, attachPlaceholder]);
+
+  const processFeaturedJob = useCallback(async (
+    post: WordPressPost,
+    signal: AbortSignal,
+    { autoPick = false, regenerate, batchId }: Pick<Job, 'autoPick' | 'regenerate' | 'batchId'> = {}
   ): Promise<void> => {
-    const post = job.data;
     try {
+      const previous = post.generatedImage;
+      if (regenerate && previous?.provenance) {
+        // Reuse the stored prompt and brief fields; "vary" keeps the prompt but rolls a new seed
+        const { provenance } = previous;
+        const brief: ImageBrief = {
+          postId: post.id,
+          brief: previous.brief || provenance.prompt,
+          altText: previous.alt,
+          caption: previous.caption || '',
+          filenameSlug: previous.filenameSlug || `post-${post.id}`,
+        };
+        const settings = {
+          ...config.image,
+          negativePrompt: provenance.negativePrompt ?? config.image.negativePrompt,
+          seed: regenerate === 'same-seed' ? provenance.seed : undefined,
+        };
+        updatePostState(post.id, {
+          status: 'generating_image',
+          statusMessage: regenerate === 'same-seed' ? `Regenerating with seed ${provenance.seed ?? 'n/a'}...` : 'Generating a variation...',
+        });
+        const result = await generateImageWithProvenance(getReproductionConfig(config.ai.image, provenance), provenance.prompt, settings, signal);
+
+        updatePostState(post.id, { status: 'processing_image', statusMessage: 'Optimizing image...' });
+        const processed = await processGeneratedImage(result.dataUrl, settings, { watermark: !post.skipWatermark });
+        // Same seed only reproduces the original on the same provider, model and settings
+        const drifted = provenance.provider !== result.provenance.provider
+          || provenance.model !== result.provenance.model
+          || provenance.settingsHash !== hashImageSettings(settings);
+        const summary = `${describeTranscode(processed)}${regenerate === 'same-seed' && drifted ? ', settings changed since original' : ''}`;
+        const check = await checkDuplicate(post.id, processed.dataUrl);
+        await publishFeaturedImage(post, brief, { ...processed, provenance: result.provenance, ...check }, summary, signal, batchId);
+        return;
+      }
+
       updatePostState(post.id, { status: 'generating_brief', statusMessage: 'Analyzing content...' });
       
       const brief = await generateImageBrief(post, config.ai.analysis, config.seo, signal);
-      
-      updatePostState(post.id, { status: 'generating_image', statusMessage: 'Synthesizing visual...' });
-      const fullPrompt = `${brief.brief}. Style: ${config.image.style}`;
-      const dataUrl = await generateImage(config.ai.image, fullPrompt, config.image, signal);
-
-      updatePostState(post.id, { status: 'uploading', statusMessage: 'Uploading to WordPress...' });
-      const fileExt = config.image.format.split('/')[1] || 'webp';
-      const fileName = `${brief.filenameSlug}-${Date.now()}.${fileExt}`;
-      const media = await uploadImage(config.wordpress, dataUrl, fileName, brief.altText, brief.caption, signal);
-
-      updatePostState(post.id, { status: 'setting_featured', statusMessage: 'Setting featured image...' });
-      await updatePost(config.wordpress, post.id, { featured_media: media.id }, signal);
-
-      updatePostState(post.id, {
-        status: 'success',
-        statusMessage: 'Complete ✓',
-        featured_media: media.id,
-        existingImageUrl: media.source_url,
-        generatedImage: {
-          url: media.source_url,
-          alt: brief.altText,
-          mediaId: media.id,
-          brief: brief.brief,
-          caption: brief.caption,
-          filenameSlug: brief.filenameSlug,
-        },
-      });
+      // Title-card providers typeset the title itself; the brief still supplies alt text, caption and filename
+      const rendersTitle = !!getImageProvider(config.ai.image.provider).capabilities.rendersTitle;
+      const fullPrompt = rendersTitle ? post.title.rendered : `${brief.brief}. Style: ${config.image.style}`;
+      const variantCount = rendersTitle ? 1 : Math.max(1, config.image.variantCount || 1);
+
+      if (variantCount === 1) {
+        for (let attempt = 0; ; attempt++) {
+          updatePostState(post.id, { status: 'generating_image', statusMessage: 'Synthesizing visual...' });
+          const { dataUrl, provenance } = await generateImageWithProvenance(config.ai.image, fullPrompt, config.image, signal);
+
+          updatePostState(post.id, { status: 'processing_image', statusMessage: 'Optimizing image...' });
+          const processed = await processGeneratedImage(dataUrl, config.image, { watermark: !post.skipWatermark });
+          const check = await checkDuplicate(post.id, processed.dataUrl);
+          // Each attempt rolls a new seed; deterministic title cards would only repeat themselves
+          if (check.duplicateOf !== undefined && config.image.duplicateCheck === 'regenerate' && !rendersTitle && attempt < MAX_DUPLICATE_RETRIES) {
+            updatePostState(post.id, { statusMessage: `Too similar to post #${check.duplicateOf}, regenerating...` });
+            continue;
+          }
+          await publishFeaturedImage(post, brief, { ...processed, provenance, ...check }, describeTranscode(processed), signal, batchId);
+          return;
+        }
+      }
+
+      // Sequential on purpose: parallel variants multiply rate-limit pressure on top of the queue's own concurrency
+      const variants: ImageVariant[] = [];
+      const prompts = buildVariantPrompts(fullPrompt, variantCount);
+      for (const [i, prompt] of prompts.entries()) {
+        try {
+          for (let attempt = 0; ; attempt++) {
+            updatePostState(post.id, { status: 'generating_image', statusMessage: `Synthesizing variant ${i + 1}/${prompts.length}...` });
+            const { dataUrl, provenance } = await generateImageWithProvenance(config.ai.image, prompt, config.image, signal);
+            const processed = await processGeneratedImage(dataUrl, config.image, { watermark: !post.skipWatermark });
+            const check = await checkDuplicate(post.id, processed.dataUrl);
+            if (check.duplicateOf !== undefined && config.image.duplicateCheck === 'regenerate' && attempt < MAX_DUPLICATE_RETRIES) {
+              updatePostState(post.id, { statusMessage: `Variant ${i + 1} too similar to post #${check.duplicateOf}, regenerating...` });
+              continue;
+            }
+            variants.push({
+              id: `${post.id}-${i}`,
+              dataUrl: processed.dataUrl,
+              extension: processed.extension,
+              prompt,
+              score: await scoreImage(processed.dataUrl),
+              width: processed.width,
+              height: processed.height,
+              bytes: processed.bytes,
+              watermarked: processed.watermarked,
+              unstampedDataUrl: processed.unstampedDataUrl,
+              provenance,
+              ...check,
+            });
+            break;
+          }
+        } catch (error) {
+          if (signal.aborted) throw error;
+          console.warn(`Variant ${i + 1} failed for post ${post.id}:`, error);
+        }
+      }
+      if (variants.length === 0) throw new Error('Every image variant failed to generate');
+
+      if (autoPick) {
+        // Near-duplicates of other posts only win when every candidate is one
+        const distinct = variants.filter(v => v.duplicateOf === undefined);
+        const best = (distinct.length > 0 ? distinct : variants).reduce((a, b) => (b.score > a.score ? b : a));
+        await publishFeaturedImage(post, brief, best, `best of ${variants.length}, score ${best.score}`, signal, batchId);
+        return;
+      }
+
+      pendingVariantsRef.current.set(post.id, { brief, variants });
+      updatePostState(post.id, { status: 'awaiting_selection', statusMessage: `${variants.length} variants ready, choose one` });
 
     } catch (error: any) {
       if (error.name === 'AbortError') {
@@ -310,19 +560,60 @@ const ResultsStep: React.FC<Props> = ({
       updatePostState(post.id, { status: 'error', statusMessage: error.message || 'Failed' });
       throw error;
     }
+  }, [config, updatePostState, publishFeaturedImage, checkDuplicate]);
+
+  // ============================================================
+  // JOB PROCESSING - JSON-LD Schema
+  // ============================================================
+  const processSchemaJob = useCallback(async (
+    post: WordPressPost,
+    signal: AbortSignal,
+    batchId?: string
+  ): Promise<void> => {
+    try {
+      updatePostState(post.id, { status: 'generating_schema', statusMessage: 'Building JSON-LD...' });
+      const jsonLd = await generateSchemaForPost(post, config.seo);
+
+      updatePostState(post.id, { status: 'inserting_schema', statusMessage: 'Inserting schema block...' });
+      await updatePostSchema(config.wordpress, post, jsonLd, signal, batchId);
+
+      updatePostState(post.id, { status: 'success', statusMessage: 'Schema added ✓', generatedSchema: jsonLd });
+    } catch (error: any) {
+      if (error.name === 'AbortError') {
+        updatePostState(post.id, { status: 'cancelled', statusMessage: 'Cancelled' });
+        return;
+      }
+      updatePostState(post.id, { status: 'error', statusMessage: error.message || 'Schema failed' });
+      // Invalid data will not fix itself on retry
+      if (error instanceof ValidationError) return;
+      throw error;
+    }
   }, [config, updatePostState]);
 
-  const queue = useJobQueue<WordPressPost>({
+  const processJob = useCallback(async (
+    job: QueueJob<Job>,
+    signal: AbortSignal
+  ): Promise<void> => {
+    const { post, action, autoPick, regenerate, batchId } = job.data;
+    switch (action) {
+      case 'schema':
+        return processSchemaJob(post, signal, batchId);
+      default:
+        return processFeaturedJob(post, signal, { autoPick, regenerate, batchId });
+    }
+  }, [processFeaturedJob, processSchemaJob]);
+
+  const queue = useJobQueue<Job>({
     processor: processJob,
     concurrency: 3,
     onJobStart: (j) => {
-      processingPostsRef.current.add(j.data.id);
+      processingPostsRef.current.add(j.data.post.id);
     },
     onJobComplete: (j) => {
-      processingPostsRef.current.delete(j.data.id);
+      processingPostsRef.current.delete(j.data.post.id);
     },
     onJobError: (j) => {
-      processingPostsRef.current.delete(j.data.id);
+      processingPostsRef.current.delete(j.data.post.id);
     },
     onQueueEmpty: () => {
       onUpdatePosts(posts);
@@ -340,14 +631,25 @@ const ResultsStep: React.FC<Props> = ({
     try {
       updatePostState(post.id, { status: 'generating_image', statusMessage: 'Generating content image...' });
       
-      const dataUrl = await generateImage(config.ai.image, imagePrompt, config.image);
+      const { dataUrl, provenance } = await generateImageWithProvenance(config.ai.image, imagePrompt, config.image);
+
+      updatePostState(post.id, { status: 'processing_image', statusMessage: 'Optimizing image...' });
+      const processed = await processGeneratedImage(dataUrl, config.image, { watermark: !post.skipWatermark });
       
-      updatePostState(post.id, { status: 'uploading', statusMessage: 'Uploading image...' });
-      const fileName = `content-image-${post.id}-${Date.now()}.webp`;
-      const media = await uploadImage(config.wordpress, dataUrl, fileName, imagePrompt.slice(0, 100), '');
+      updatePostState(post.id, { status: 'uploading', statusMessage: `Uploading image (${describeTranscode(processed)})...` });
+      const fileName = `content-image-${post.id}-${Date.now()}.${processed.extension}`;
+      const media = await uploadImage(
+        config.wordpress, processed.dataUrl, fileName, imagePrompt.slice(0, 100), '', undefined,
+        buildProvenanceDescription(provenance), { settings: config.image.metadata, provenance }
+      );
+
+      const placeholder = await attachPlaceholder(media.id, processed.dataUrl);
 
       updatePostState(post.id, { status: 'inserting', statusMessage: 'Inserting into content...' });
-      await updatePostContent(config.wordpress, post.id, insertionPoint, media.source_url, imagePrompt);
+      await updatePostContent(
+        config.wordpress, post, insertionPoint, media.source_url, imagePrompt,
+        config.image.injectPlaceholders ? placeholder : undefined, media.id
+      );
 
       // Update local state
       updatePostState(post.id, { 
@@ -360,27 +662,78 @@ const ResultsStep: React.FC<Props> = ({
     } catch (error: any) {
       updatePostState(post.id, { status: 'error', statusMessage: error.message });
     }
-  }, [config, updatePostState]);
+  }, [config, updatePostState, attachPlaceholder]);
 
   // ============================================================
   // ACTIONS
   // ============================================================
   const handleStartBulkGeneration = useCallback(() => {
     const targets = posts.filter(p => selectedPostIds.has(p.id));
+    const batchId = createBatchId();
     const jobs = targets.map(p => ({ 
-      id: p.id, 
-      data: p, 
+      id: `generate-${p.id}`, 
+      data: { post: p, action: 'generate' as const, autoPick: !!config.image.autoPickVariants, batchId }, 
       priority: p.featured_media === 0 ? 10 : 1 
     }));
     queue.addJobs(jobs);
+    setLastBatchId(batchId);
     setIsModalOpen(true);
-  }, [posts, selectedPostIds, queue]);
+  }, [posts, selectedPostIds, queue, config.image.autoPickVariants]);
 
   const handleGenerateSingle = useCallback((post: WordPressPost) => {
-    queue.addJob({ id: post.id, data: post });
+    queue.addJob({ id: `generate-${post.id}`, data: { post, action: 'generate' } });
+    setIsModalOpen(true);
+  }, [queue]);
+
+  const handleRegenerate = useCallback((post: WordPressPost, mode: 'same-seed' | 'vary') => {
+    queue.addJob({ id: `generate-${post.id}`, data: { post, action: 'generate', regenerate: mode } });
     setIsModalOpen(true);
   }, [queue]);
 
+  // Keeps the candidates on failure so the user can retry or pick another
+  const handlePickVariant = useCallback(async (post: WordPressPost, variant: ImageVariant) => {
+    const pending = pendingVariantsRef.current.get(post.id);
+    if (!pending) return;
+    try {
+      await publishFeaturedImage(post, pending.brief, variant, `variant score ${variant.score}`);
+      pendingVariantsRef.current.delete(post.id);
+      setVariantPostId(null);
+    } catch (error: any) {
+      updatePostState(post.id, { status: 'awaiting_selection', statusMessage: `Upload failed: ${error.message}` });
+      throw error;
+    }
+  }, [publishFeaturedImage, updatePostState]);
+
+  const handleDiscardVariants = useCallback((post: WordPressPost) => {
+    pendingVariantsRef.current.delete(post.id);
+    updatePostState(post.id, { status: 'idle', statusMessage: undefined });
+    setVariantPostId(null);
+  }, [updatePostState]);
+
+  // A reload loses the in-memory candidates; regenerate rather than open an empty picker
+  const handleOpenVariants = useCallback((post: WordPressPost) => {
+    if (pendingVariantsRef.current.has(post.id)) setVariantPostId(post.id);
+    else handleGenerateSingle(post);
+  }, [handleGenerateSingle]);
+
+  const handleGenerateSchema = useCallback((targets: WordPressPost[]) => {
+    const batchId = targets.length > 1 ? createBatchId() : undefined;
+    queue.addJobs(targets.map(p => ({ id: `schema-${p.id}`, data: { post: p, action: 'schema' as const, batchId } })));
+    // A single-post run has no batch to offer, so the previous batch's rollback stays available
+    if (batchId) setLastBatchId(batchId);
+    setIsModalOpen(true);
+  }, [queue]);
+
+  const handleRemoveSchema = useCallback(async (post: WordPressPost) => {
+    try {
+      updatePostState(post.id, { status: 'inserting_schema', statusMessage: 'Removing schema block...' });
+      await updatePostSchema(config.wordpress, post, null);
+      updatePostState(post.id, { status: 'success', statusMessage: 'Schema removed', generatedSchema: undefined });
+    } catch (error: any) {
+      updatePostState(post.id, { status: 'error', statusMessage: error.message });
+    }
+  }, [config, updatePostState]);
+
   const handleSelectAll = useCallback(() => {
     startTransition(() => {
       if (selectedPostIds.size === filteredPosts.length) {
@@ -443,6 +796,47 @@ const ResultsStep: React.FC<Props> = ({
       updatePostState(updatedPost.id, updatedPost);
   }, [updatePostState]);
 
+  // ============================================================
+  // ROLLBACK
+  // ============================================================
+  // Old entries shed their content copies (or go) once per session rather than on every write
+  React.useEffect(() => {
+    pruneOperations(config.wordpress.url);
+  }, [config.wordpress.url]);
+
+  // Only the fields the operation touched; the rest of the local post (analysis, generated image meta) stays
+  const applyRollback = useCallback((entry: OperationEntry, restored: WordPressPost | null) => {
+    const updates: Partial<WordPressPost> = { status: 'success', statusMessage: `Rolled back: ${entry.summary}` };
+    if (restored) {
+      Object.assign(updates, { content: restored.content, modified: restored.modified, generatedSchema: restored.generatedSchema, tldr: restored.tldr });
+    }
+    if (entry.kind === 'featured_image' && restored) {
+      Object.assign(updates, { featured_media: restored.featured_media, existingImageUrl: restored.existingImageUrl, generatedImage: undefined });
+    }
+    const imageDelta = entry.kind === 'insert_image' ? -1 : entry.kind === 'delete_image' ? 1 : 0;
+    const current = posts.find(p => p.id === entry.postId);
+    if (imageDelta && current) updates.imageCount = Math.max(0, current.imageCount + imageDelta);
+    updatePostState(entry.postId, updates);
+  }, [posts, updatePostState]);
+
+  const handleRollbackBatch = useCallback(async (batchId: string) => {
+    if (!confirm('Roll back every change this batch made? Posts edited since the batch ran are skipped.')) return;
+    setIsRollingBack(true);
+    try {
+      const { restored, failed } = await rollbackBatch(config.wordpress, batchId);
+      restored.forEach(r => applyRollback(r.entry, r.post));
+      failed.forEach(f => updatePostState(f.entry.postId, {
+        status: 'error',
+        statusMessage: `Rollback skipped: ${f.error instanceof Error ? f.error.message : String(f.error)}`,
+      }));
+      alert(`${restored.length} change${restored.length === 1 ? '' : 's'} rolled back${failed.length > 0 ? `, ${failed.length} skipped (see post status)` : ''}.`);
+    } catch (error: any) {
+      alert(`Batch rollback failed: ${error.message}`);
+    } finally {
+      setIsRollingBack(false);
+    }
+  }, [config.wordpress, applyRollback, updatePostState]);
+
   // ============================================================
   // RENDER
   // ============================================================
@@ -461,6 +855,8 @@ const ResultsStep: React.FC<Props> = ({
           onCancelAll={queue.cancelAll}
           onPause={queue.pause}
           onResume={queue.resume}
+          onRollbackBatch={lastBatchId ? () => handleRollbackBatch(lastBatchId) : undefined}
+          isRollingBack={isRollingBack}
         />
       )}
 
@@ -496,6 +892,61 @@ const ResultsStep: React.FC<Props> = ({
         </Suspense>
       )}
 
+      {/* TL;DR Modal */}
+      {tldrPost && (
+        <Suspense fallback={null}>
+          <TldrModal
+            post={tldrPost}
+            config={config}
+            onClose={() => setTldrPost(null)}
+            onUpdatePost={updatePostState}
+          />
+        </Suspense>
+      )}
+
+      {/* History Modal */}
+      {historyPost && (
+        <Suspense fallback={null}>
+          <HistoryModal
+            post={historyPost}
+            config={config}
+            onClose={() => setHistoryPost(null)}
+            onRolledBack={applyRollback}
+            onRollbackBatch={handleRollbackBatch}
+          />
+        </Suspense>
+      )}
+
+      {/* Variant Picker Modal */}
+      {variantPostId !== null && pendingVariantsRef.current.has(variantPostId) && (() => {
+        const post = posts.find(p => p.id === variantPostId);
+        const pending = pendingVariantsRef.current.get(variantPostId)!;
+        return post && (
+          <Suspense fallback={null}>
+            <VariantPickerModal
+              post={post}
+              brief={pending.brief}
+              variants={pending.variants}
+              onPick={(variant) => handlePickVariant(post, variant)}
+              onDiscard={() => handleDiscardVariants(post)}
+              onClose={() => setVariantPostId(null)}
+            />
+          </Suspense>
+        );
+      })()}
+
+      {/* Duplicate Images Report */}
+      {showDuplicates && (
+        <Suspense fallback={null}>
+          <DuplicateReportModal
+            posts={posts}
+            knownHashes={Array.from(hashIndexRef.current.values())}
+            onScanned={handleHashesScanned}
+            onClose={() => setShowDuplicates(false)}
+          />
+        </Suspense>
+      )}
+
       {/* Bulk Actions Modal */}
       {showBulkActions && selectedPostIds.size > 0 && (
         <Suspense fallback={null}>
@@ -503,6 +954,7 @@ const ResultsStep: React.FC<Props> = ({
             selectedPosts={posts.filter(p => selectedPostIds.has(p.id))}
             onClose={() => setShowBulkActions(false)}
             onGenerateAll={handleStartBulkGeneration}
+            onGenerateSchema={() => handleGenerateSchema(posts.filter(p => selectedPostIds.has(p.id)))}
             onExport={handleExportReport}
           />
         </Suspense>
@@ -531,6 +983,13 @@ const ResultsStep: React.FC<Props> = ({
                 <DownloadIcon className="w-4 h-4" />
                 Export
               </button>
+              <button 
+                onClick={() => setShowDuplicates(true)}
+                className="flex items-center gap-2 px-4 py-2 text-xs font-bold uppercase tracking-wide rounded-xl bg-surface border border-border hover:border-brand-primary hover:text-brand-primary transition-all"
+              >
+                <LayoutGridIcon className="w-4 h-4" />
+                Duplicates
+              </button>
               <button 
                 onClick={onBackToConfig} 
                 className="flex items-center gap-2 px-4 py-2 text-xs font-bold uppercase tracking-wide rounded-xl bg-surface border border-border hover:border-brand-primary hover:text-brand-primary transition-all"
@@ -570,6 +1029,9 @@ const ResultsStep: React.FC<Props> = ({
           isProcessing={queue.state.isProcessing}
           onStartGeneration={handleStartBulkGeneration}
           isPending={isPending}
+          facets={facets}
+          facetFilters={facetFilters}
+          onFacetFiltersChange={setFacetFilters}
         />
 
         {/* Virtualized Grid */}
@@ -603,6 +1065,14 @@ const ResultsStep: React.FC<Props> = ({
                     onGenerate={() => handleGenerateSingle(post)}
                     onViewGallery={() => setGalleryPost(post)}
                     onInsertImage={() => setInsertionPost(post)}
+                    onGenerateSchema={() => handleGenerateSchema([post])}
+                    onRemoveSchema={() => handleRemoveSchema(post)}
+                    onOpenTldr={() => setTldrPost(post)}
+                    onOpenHistory={() => setHistoryPost(post)}
+                    onPickVariant={() => handleOpenVariants(post)}
+                    onRegenerate={(mode) => handleRegenerate(post, mode)}
+                    watermarkEnabled={!!config.image.watermark?.enabled && !!config.image.watermark.logoDataUrl}
+                    onToggleWatermark={() => updatePostState(post.id, { skipWatermark: !post.skipWatermark })}
                     isProcessing={processingPostsRef.current.has(post.id)}
                     viewMode={viewMode}
                   />
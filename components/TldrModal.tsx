@@ -0,0 +1,164 @@
+// components/TldrModal.tsx - Generate, edit and insert a key-takeaways block
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { WordPressPost, Configuration } from '../types';
+import { generateTldrForPost } from '../services/aiService';
+import { updatePostTldr } from '../services/wordpressService';
+import { DEFAULT_TLDR_HEADING } from '../services/tldrService';
+import { XIcon, Loader, AlertTriangle, SparklesIcon, ListChecks, PlusCircleIcon, TrashIcon } from './icons/Icons';
+
+interface Props {
+  post: WordPressPost;
+  config: Configuration;
+  onClose: () => void;
+  onUpdatePost: (postId: number, updates: Partial<WordPressPost>) => void;
+}
+
+const BULLET_COUNTS = [3, 4, 5, 6, 7];
+
+const TldrModal: React.FC<Props> = ({ post, config, onClose, onUpdatePost }) => {
+  const [bulletCount, setBulletCount] = useState(5);
+  const [tone, setTone] = useState(config.seo.brandVoice || '');
+  const [heading, setHeading] = useState(DEFAULT_TLDR_HEADING);
+  const [bullets, setBullets] = useState<string[]>(post.tldr || []);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isInserting, setIsInserting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // What the card showed when the modal opened; a cancelled generation puts it back
+  const initialStatusRef = useRef<Pick<WordPressPost, 'status' | 'statusMessage'>>({ status: post.status, statusMessage: post.statusMessage });
+
+  // Lock background scroll and cancel any in-flight generation on close
+  useEffect(() => {
+    document.body.style.overflow = 'hidden';
+    return () => {
+      document.body.style.overflow = 'auto';
+      abortRef.current?.abort();
+    };
+  }, []);
+
+  const handleGenerate = useCallback(async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      setIsGenerating(true);
+      setError(null);
+      onUpdatePost(post.id, { status: 'generating_tldr', statusMessage: 'Summarizing key takeaways...' });
+      const result = await generateTldrForPost(post, config.ai.analysis, { ...config.seo, brandVoice: tone }, bulletCount, controller.signal);
+      setBullets(result);
+      onUpdatePost(post.id, { status: 'idle', statusMessage: undefined });
+    } catch (e) {
+      if (e instanceof DOMException && e.name === 'AbortError') {
+        // A newer run superseded this one and owns the status; otherwise the modal closed mid-generation
+        if (abortRef.current === controller) onUpdatePost(post.id, initialStatusRef.current);
+        return;
+      }
+      const message = e instanceof Error ? e.message : 'TL;DR generation failed.';
+      setError(message);
+      onUpdatePost(post.id, { status: 'error', statusMessage: message });
+    } finally {
+      setIsGenerating(false);
+    }
+  }, [post, config, tone, bulletCount, onUpdatePost]);
+
+  const handleInsert = useCallback(async () => {
+    const cleaned = bullets.map(b => b.trim()).filter(Boolean);
+    if (cleaned.length === 0) return;
+    try {
+      setIsInserting(true);
+      setError(null);
+      onUpdatePost(post.id, { status: 'inserting_tldr', statusMessage: 'Inserting TL;DR block...' });
+      await updatePostTldr(config.wordpress, post, cleaned, heading.trim() || DEFAULT_TLDR_HEADING);
+      onUpdatePost(post.id, { status: 'success', statusMessage: 'TL;DR inserted ✓', tldr: cleaned });
+      onClose();
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Failed to insert TL;DR.';
+      setError(message);
+      onUpdatePost(post.id, { status: 'error', statusMessage: message });
+    } finally {
+      setIsInserting(false);
+    }
+  }, [bullets, heading, post.id, config.wordpress, onUpdatePost, onClose]);
+
+  const updateBullet = (index: number, value: string) =>
+    setBullets(prev => prev.map((b, i) => (i === index ? value : b)));
+
+  const isBusy = isGenerating || isInserting;
+
+  return (
+    <div className="fixed inset-0 bg-background/90 backdrop-blur-md flex items-center justify-center z-50 p-4 animate-fade-in">
+      <div className="bg-surface rounded-2xl shadow-2xl w-full max-w-2xl border border-border max-h-[90vh] flex flex-col overflow-hidden">
+        <header className="flex justify-between items-center p-6 border-b border-border bg-surface-muted/30">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-brand-primary/10 rounded-lg"><ListChecks className="w-6 h-6 text-brand-primary"/></div>
+            <div>
+              <h2 className="text-xl font-black text-text-primary tracking-tight">TL;DR Key Takeaways</h2>
+              <p className="text-xs text-muted">Inserted after the opening paragraph of "{post.title.rendered}"</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full text-subtle hover:bg-surface-muted hover:text-text-primary transition-colors">
+            <XIcon className="w-6 h-6" />
+          </button>
+        </header>
+
+        <div className="p-6 flex-grow overflow-y-auto space-y-6">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-[10px] font-black text-muted uppercase tracking-widest mb-2">Bullets</label>
+              <select value={bulletCount} onChange={(e) => setBulletCount(Number(e.target.value))} disabled={isBusy} className="w-full bg-background border border-border rounded-xl px-3 py-2 text-xs text-text-primary">
+                {BULLET_COUNTS.map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </div>
+            <div className="sm:col-span-2">
+              <label className="block text-[10px] font-black text-muted uppercase tracking-widest mb-2">Tone</label>
+              <input type="text" value={tone} onChange={(e) => setTone(e.target.value)} disabled={isBusy} placeholder="Professional & Authoritative" className="w-full bg-background border border-border rounded-xl px-4 py-2 text-xs text-text-primary" />
+            </div>
+          </div>
+
+          <button onClick={handleGenerate} disabled={isBusy} className="w-full flex items-center justify-center gap-2 py-2.5 rounded-xl text-xs font-bold uppercase tracking-wide border border-brand-primary/30 text-brand-primary hover:bg-brand-primary/10 transition-all disabled:opacity-50">
+            {isGenerating ? <Loader className="w-4 h-4 animate-spin" /> : <SparklesIcon className="w-4 h-4" />}
+            {bullets.length > 0 ? 'Regenerate' : 'Generate'} Takeaways
+          </button>
+
+          {error && (
+            <div className="flex items-center gap-2 text-sm text-red-400 bg-red-500/10 border border-red-500/20 rounded-xl p-3">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" /> {error}
+            </div>
+          )}
+
+          {bullets.length > 0 && (
+            <div className="space-y-3">
+              <input type="text" value={heading} onChange={(e) => setHeading(e.target.value)} disabled={isBusy} className="w-full bg-transparent border-b border-border px-1 py-1 text-sm font-bold text-text-primary outline-none focus:border-brand-primary" />
+              {bullets.map((bullet, i) => (
+                <div key={i} className="flex items-start gap-2">
+                  <span className="mt-2.5 h-1.5 w-1.5 rounded-full bg-brand-primary flex-shrink-0" />
+                  <textarea value={bullet} onChange={(e) => updateBullet(i, e.target.value)} disabled={isBusy} rows={2} className="flex-grow bg-background border border-border rounded-xl px-3 py-2 text-sm text-text-primary resize-none focus:ring-2 focus:ring-brand-primary outline-none" />
+                  <button onClick={() => setBullets(prev => prev.filter((_, j) => j !== i))} disabled={isBusy} className="p-2 rounded-lg text-muted hover:text-red-500 hover:bg-red-500/10" title="Remove bullet">
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button onClick={() => setBullets(prev => [...prev, ''])} disabled={isBusy} className="text-xs flex items-center gap-1 text-brand-primary hover:underline">
+                <PlusCircleIcon className="w-3 h-3" /> Add bullet
+              </button>
+            </div>
+          )}
+        </div>
+
+        <footer className="p-6 border-t border-border flex justify-end gap-3 bg-surface-muted/30">
+          <button onClick={onClose} className="py-3 px-6 rounded-xl text-sm font-bold text-text-secondary hover:bg-surface-muted transition-all">
+            Cancel
+          </button>
+          <button onClick={handleInsert} disabled={isBusy || !bullets.some(b => b.trim())} className="inline-flex items-center justify-center gap-2 font-bold py-3 px-8 rounded-xl text-white bg-gradient-to-br from-brand-primary to-brand-secondary shadow-lg hover:shadow-xl hover:-translate-y-0.5 transition-all disabled:opacity-50 disabled:hover:translate-y-0">
+            {isInserting && <Loader className="w-4 h-4 animate-spin" />}
+            {post.tldr ? 'Replace TL;DR' : 'Insert TL;DR'}
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default TldrModal;
@@ -0,0 +1,128 @@
+// components/VariantPickerModal.tsx - Compare generated candidates and upload only the chosen one
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { WordPressPost, ImageBrief, ImageVariant } from '../types';
+import { formatBytes } from '../services/imageProcessingService';
+import { XIcon, Loader, AlertTriangle, CheckCircle2, GalleryIcon, TrashIcon } from './icons/Icons';
+
+interface Props {
+  post: WordPressPost;
+  brief: ImageBrief;
+  variants: ImageVariant[];
+  onPick: (variant: ImageVariant) => Promise<void>;
+  onDiscard: () => void;
+  onClose: () => void;
+}
+
+const VariantPickerModal: React.FC<Props> = ({ post, brief, variants, onPick, onDiscard, onClose }) => {
+  const bestScore = Math.max(...variants.map(v => v.score));
+  const [selectedId, setSelectedId] = useState(() => variants.find(v => v.score === bestScore)?.id ?? variants[0]?.id);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    document.body.style.overflow = 'hidden';
+    return () => { document.body.style.overflow = 'auto'; };
+  }, []);
+
+  const handleUse = useCallback(async () => {
+    const variant = variants.find(v => v.id === selectedId);
+    if (!variant) return;
+    try {
+      setIsUploading(true);
+      setError(null);
+      await onPick(variant);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Upload failed.');
+    } finally {
+      setIsUploading(false);
+    }
+  }, [variants, selectedId, onPick]);
+
+  return (
+    <div className="fixed inset-0 bg-background/90 backdrop-blur-md flex items-center justify-center z-50 p-4 animate-fade-in">
+      <div className="bg-surface rounded-2xl shadow-2xl w-full max-w-5xl border border-border max-h-[90vh] flex flex-col overflow-hidden">
+        <header className="flex justify-between items-center p-6 border-b border-border bg-surface-muted/30">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-brand-primary/10 rounded-lg"><GalleryIcon className="w-6 h-6 text-brand-primary"/></div>
+            <div>
+              <h2 className="text-xl font-black text-text-primary tracking-tight">Choose a Featured Image</h2>
+              <p className="text-xs text-muted">{variants.length} candidates for "{post.title.rendered}". Only the one you pick is uploaded.</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full text-subtle hover:bg-surface-muted hover:text-text-primary transition-colors">
+            <XIcon className="w-6 h-6" />
+          </button>
+        </header>
+
+        <div className="p-6 flex-grow overflow-y-auto space-y-6">
+          <div className="p-4 bg-surface-muted/50 rounded-xl border border-border space-y-1">
+            <p className="text-[10px] font-black text-muted uppercase tracking-widest">Brief</p>
+            <p className="text-sm text-text-secondary">{brief.brief}</p>
+            <p className="text-xs text-muted">Alt text: {brief.altText}</p>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {variants.map((variant, i) => {
+              const isSelected = variant.id === selectedId;
+              return (
+                <button
+                  key={variant.id}
+                  onClick={() => setSelectedId(variant.id)}
+                  disabled={isUploading}
+                  className={`text-left rounded-xl border-2 overflow-hidden transition-all ${isSelected ? 'border-brand-primary shadow-lg' : 'border-border hover:border-brand-primary/40'}`}
+                >
+                  <div className="relative bg-surface-muted">
+                    <img src={variant.dataUrl} alt={`Variant ${i + 1}`} className="w-full aspect-video object-cover" />
+                    {isSelected && (
+                      <CheckCircle2 className="absolute top-2 right-2 w-6 h-6 text-brand-primary bg-surface rounded-full" />
+                    )}
+                  </div>
+                  <div className="p-3 space-y-1">
+                    <div className="flex items-center justify-between text-xs font-bold">
+                      <span className="text-text-primary">Variant {i + 1}</span>
+                      <span className={variant.score === bestScore ? 'text-emerald-600' : 'text-muted'}>
+                        Score {variant.score}{variant.score === bestScore ? ' · Best' : ''}
+                      </span>
+                    </div>
+                    <p className="text-[10px] text-muted">
+                      {variant.width}×{variant.height} · {formatBytes(variant.bytes)} · {variant.extension.toUpperCase()}
+                      {variant.provenance.seed !== undefined && ` · seed ${variant.provenance.seed}`}
+                    </p>
+                    {variant.duplicateOf !== undefined && (
+                      <p className="text-[10px] font-bold text-amber-600">Looks like the image on post #{variant.duplicateOf}</p>
+                    )}
+                    <p className="text-[10px] text-text-secondary line-clamp-2">{variant.prompt}</p>
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-2 text-sm text-red-400 bg-red-500/10 border border-red-500/20 rounded-xl p-3">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" /> {error}
+            </div>
+          )}
+        </div>
+
+        <footer className="p-6 border-t border-border flex justify-between gap-3 bg-surface-muted/30">
+          <button onClick={onDiscard} disabled={isUploading} className="flex items-center gap-2 py-3 px-6 rounded-xl text-sm font-bold text-red-500 hover:bg-red-500/10 transition-all disabled:opacity-50">
+            <TrashIcon className="w-4 h-4" /> Discard All
+          </button>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="py-3 px-6 rounded-xl text-sm font-bold text-text-secondary hover:bg-surface-muted transition-all">
+              Decide Later
+            </button>
+            <button onClick={handleUse} disabled={isUploading || !selectedId} className="inline-flex items-center justify-center gap-2 font-bold py-3 px-8 rounded-xl text-white bg-gradient-to-br from-brand-primary to-brand-secondary shadow-lg hover:shadow-xl hover:-translate-y-0.5 transition-all disabled:opacity-50 disabled:hover:translate-y-0">
+              {isUploading && <Loader className="w-4 h-4 animate-spin" />}
+              Upload & Set Featured
+            </button>
+          </div>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default VariantPickerModal;
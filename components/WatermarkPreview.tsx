@@ -0,0 +1,49 @@
+// components/WatermarkPreview.tsx - Live preview of the logo overlay on a stand-in image
+
+import React, { useEffect, useRef } from 'react';
+import { AspectRatio, ImageSize, WatermarkSettings } from '../types';
+import { getTargetDimensions } from '../services/imageProcessingService';
+import { drawWatermark, getWatermarkPlacement } from '../services/watermarkService';
+
+interface Props {
+  settings: WatermarkSettings;
+  aspectRatio: AspectRatio;
+}
+
+const PREVIEW_LONG_EDGE = 280;
+
+const WatermarkPreview: React.FC<Props> = ({ settings, aspectRatio }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    // Same proportions as the real output, scaled down; placement maths is width-relative so it carries over
+    const full = getTargetDimensions(aspectRatio, ImageSize.K1);
+    const scale = PREVIEW_LONG_EDGE / Math.max(full.width, full.height);
+    canvas.width = Math.round(full.width * scale);
+    canvas.height = Math.round(full.height * scale);
+
+    const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+    gradient.addColorStop(0, '#64748b');
+    gradient.addColorStop(1, '#0f172a');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    if (!settings.logoDataUrl) return;
+    let cancelled = false;
+    const logo = new Image();
+    logo.onload = () => {
+      if (cancelled) return;
+      drawWatermark(ctx, logo, canvas.width, canvas.height, getWatermarkPlacement(settings, aspectRatio), settings.opacity);
+    };
+    logo.src = settings.logoDataUrl;
+    return () => { cancelled = true; };
+  }, [settings, aspectRatio]);
+
+  return <canvas ref={canvasRef} className="rounded-lg border border-border max-w-full" />;
+};
+
+export default WatermarkPreview;
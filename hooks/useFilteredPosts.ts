@@ -1,7 +1,7 @@
 // hooks/useFilteredPosts.ts - Pre-computed indexes with zero/low image filtering
 
 import { useMemo, useCallback } from 'react';
-import { WordPressPost, JobStatus, FilterPreset } from '../types';
+import { WordPressPost, JobStatus, FilterPreset, PostFacetFilters, SiteTaxonomies } from '../types';
 
 export type FilterMode = FilterPreset;
 
@@ -18,6 +18,25 @@ export interface FilterIndexes {
   searchIndex: Map<number, string>;
   dateIndex: Map<number, number>;
   imageCountIndex: Map<number, number>;
+  // Facet value -> post ids; statuses are keyed by the WordPress status string
+  categoryIndex: Map<number, Set<number>>;
+  tagIndex: Map<number, Set<number>>;
+  authorIndex: Map<number, Set<number>>;
+  postStatusIndex: Map<string, Set<number>>;
+  authorNames: Map<number, string>;
+}
+
+export interface FacetOption {
+  value: string;
+  label: string;
+  count: number;
+}
+
+export interface PostFacets {
+  categories: FacetOption[];
+  tags: FacetOption[];
+  authors: FacetOption[];
+  postStatuses: FacetOption[];
 }
 
 export interface UseFilteredPostsOptions {
@@ -28,6 +47,8 @@ export interface UseFilteredPostsOptions {
   sortDirection?: 'asc' | 'desc';
   minImages?: number;
   maxImages?: number;
+  facetFilters?: PostFacetFilters;
+  taxonomies?: SiteTaxonomies | null; // Only used to label facet options
 }
 
 export interface UseFilteredPostsResult {
@@ -35,6 +56,7 @@ export interface UseFilteredPostsResult {
   filteredCount: number;
   totalCount: number;
   indexes: FilterIndexes;
+  facets: PostFacets;
   stats: {
     noFeatured: number;
     hasFeatured: number;
@@ -48,11 +70,23 @@ export interface UseFilteredPostsResult {
 }
 
 const PENDING_STATUSES: JobStatus[] = [
-  'pending', 'generating_brief', 'analyzing_placement', 'generating_image',
+  'pending', 'generating_brief', 'analyzing_placement', 'generating_image', 'processing_image', 'awaiting_selection',
   'uploading', 'inserting', 'setting_featured', 'updating_meta', 'analyzing',
   'generating_schema', 'inserting_schema', 'generating_tldr', 'inserting_tldr', 'aeo_auditing',
 ];
 
+const addToIndex = <K>(index: Map<K, Set<number>>, key: K, postId: number): void => {
+  const ids = index.get(key);
+  if (ids) ids.add(postId);
+  else index.set(key, new Set([postId]));
+};
+
+// Options present in the crawled posts, most used first
+const toFacetOptions = <K>(index: Map<K, Set<number>>, label: (key: K) => string): FacetOption[] =>
+  Array.from(index.entries())
+    .map(([key, ids]) => ({ value: String(key), label: label(key), count: ids.size }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+
 const stripHtml = (html: string): string => {
   const doc = new DOMParser().parseFromString(html, 'text/html');
   return doc.body.textContent?.toLowerCase() || '';
@@ -67,6 +101,8 @@ export const useFilteredPosts = (options: UseFilteredPostsOptions): UseFilteredP
     sortDirection = 'desc',
     minImages = 0,
     maxImages = 100,
+    facetFilters = {},
+    taxonomies,
   } = options;
 
   // Build indexes - O(n) once, then O(1) lookups
@@ -83,6 +119,11 @@ export const useFilteredPosts = (options: UseFilteredPostsOptions): UseFilteredP
     const searchIndex = new Map<number, string>();
     const dateIndex = new Map<number, number>();
     const imageCountIndex = new Map<number, number>();
+    const categoryIndex = new Map<number, Set<number>>();
+    const tagIndex = new Map<number, Set<number>>();
+    const authorIndex = new Map<number, Set<number>>();
+    const postStatusIndex = new Map<string, Set<number>>();
+    const authorNames = new Map<number, string>();
 
     for (const post of posts) {
       const id = post.id;
@@ -127,11 +168,21 @@ export const useFilteredPosts = (options: UseFilteredPostsOptions): UseFilteredP
 
       // Image count index
       imageCountIndex.set(id, post.imageCount);
+
+      // Section facets
+      post.categories?.forEach(term => addToIndex(categoryIndex, term, id));
+      post.tags?.forEach(term => addToIndex(tagIndex, term, id));
+      if (post.author) {
+        addToIndex(authorIndex, post.author, id);
+        if (post.authorName) authorNames.set(post.author, post.authorName);
+      }
+      if (post.postStatus) addToIndex(postStatusIndex, post.postStatus, id);
     }
 
     return { 
       all, noFeatured, hasFeatured, zeroImages, lowImages, needsWork,
-      processed, errors, pending, searchIndex, dateIndex, imageCountIndex 
+      processed, errors, pending, searchIndex, dateIndex, imageCountIndex,
+      categoryIndex, tagIndex, authorIndex, postStatusIndex, authorNames,
     };
   }, [posts]);
 
@@ -167,6 +218,16 @@ export const useFilteredPosts = (options: UseFilteredPostsOptions): UseFilteredP
     }
   }, [filterMode, indexes, minImages, maxImages]);
 
+  // Apply section facets; each set one must match
+  const filterByFacets = useCallback((postId: number): boolean => {
+    const { category, tag, author, postStatus } = facetFilters;
+    if (category !== undefined && !indexes.categoryIndex.get(category)?.has(postId)) return false;
+    if (tag !== undefined && !indexes.tagIndex.get(tag)?.has(postId)) return false;
+    if (author !== undefined && !indexes.authorIndex.get(author)?.has(postId)) return false;
+    if (postStatus !== undefined && !indexes.postStatusIndex.get(postStatus)?.has(postId)) return false;
+    return true;
+  }, [facetFilters, indexes]);
+
   // Apply search filter
   const filterBySearch = useCallback((postId: number): boolean => {
     if (!searchQuery.trim()) return true;
@@ -180,7 +241,7 @@ export const useFilteredPosts = (options: UseFilteredPostsOptions): UseFilteredP
 
   // Filter and sort posts
   const filteredPosts = useMemo(() => {
-    const filtered = posts.filter(post => filterByMode(post.id) && filterBySearch(post.id));
+    const filtered = posts.filter(post => filterByMode(post.id) && filterByFacets(post.id) && filterBySearch(post.id));
 
     return filtered.sort((a, b) => {
       let comparison = 0;
@@ -203,7 +264,21 @@ export const useFilteredPosts = (options: UseFilteredPostsOptions): UseFilteredP
 
       return sortDirection === 'asc' ? comparison : -comparison;
     });
-  }, [posts, filterByMode, filterBySearch, sortBy, sortDirection, indexes]);
+  }, [posts, filterByMode, filterByFacets, filterBySearch, sortBy, sortDirection, indexes]);
+
+  const facets = useMemo<PostFacets>(() => {
+    const termName = (terms: { id: number; name: string }[] | undefined) => {
+      const names = new Map((terms || []).map(t => [t.id, t.name]));
+      return (id: number) => names.get(id) || `#${id}`;
+    };
+    const authorName = termName(taxonomies?.authors);
+    return {
+      categories: toFacetOptions(indexes.categoryIndex, termName(taxonomies?.categories)),
+      tags: toFacetOptions(indexes.tagIndex, termName(taxonomies?.tags)),
+      authors: toFacetOptions(indexes.authorIndex, (id: number) => indexes.authorNames.get(id) || authorName(id)),
+      postStatuses: toFacetOptions(indexes.postStatusIndex, (status: string) => status.charAt(0).toUpperCase() + status.slice(1)),
+    };
+  }, [indexes, taxonomies]);
 
   // Calculate stats
   const stats = useMemo(() => ({
@@ -222,6 +297,7 @@ export const useFilteredPosts = (options: UseFilteredPostsOptions): UseFilteredP
     filteredCount: filteredPosts.length,
     totalCount: posts.length,
     indexes,
+    facets,
     stats,
   };
 };
@@ -21,6 +21,8 @@ interface PersistedConfig {
   wordpress: {
     url: string;
     username: string;
+    postTypes?: Configuration['wordpress']['postTypes'];
+    crawlScope?: Configuration['wordpress']['crawlScope'];
   };
   seo: Configuration['seo'];
   image: Configuration['image'];
@@ -63,6 +65,8 @@ export const usePersistence = () => {
       wordpress: {
         url: config.wordpress.url,
         username: config.wordpress.username,
+        postTypes: config.wordpress.postTypes,
+        crawlScope: config.wordpress.crawlScope,
         // Note: We don't persist appPassword for security
       },
       seo: config.seo,
@@ -85,6 +89,8 @@ export const usePersistence = () => {
       wordpress: {
         url: config.wordpress.url,
         username: config.wordpress.username,
+        postTypes: config.wordpress.postTypes,
+        crawlScope: config.wordpress.crawlScope,
       },
       seo: config.seo,
       image: config.image,
@@ -122,6 +128,8 @@ export const usePersistence = () => {
     // Only save essential post data to reduce storage size
     const minimalPosts = posts.map(p => ({
       id: p.id,
+      type: p.type,
+      restBase: p.restBase,
       title: p.title,
       link: p.link,
       featured_media: p.featured_media,
@@ -129,6 +137,7 @@ export const usePersistence = () => {
       status: p.status,
       existingImageUrl: p.existingImageUrl,
       generatedImage: p.generatedImage,
+      skipWatermark: p.skipWatermark,
     }));
     
     try {
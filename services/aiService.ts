@@ -1,7 +1,5 @@
-
-import { GoogleGenAI, Type } from "@google/genai";
 import { 
-  AIProvider, 
+  AIProvider,
   AnalysisAIConfig, 
   ImageAIConfig, 
   ImageSettings, 
@@ -9,78 +7,31 @@ import {
   SEOContext, 
   AEOAnalysis,
   ImageBrief,
+  ImageAnalysis,
+  InsertionPoint,
+  ImageProvenance,
+  TestResult,
 } from '../types';
+import { getImageProvider, getTextProvider, listImageProviders } from './providerRegistry';
+import { ValidationError } from './errors';
+import { ArticleSchemaType, buildPostSchema, validateSchema } from './schemaService';
+import { buildPlacementPlan } from './placementService';
+import { buildProvenance, createSeed } from './provenanceService';
 
-// ============================================================
-// SOTA MODEL CONFIGURATION - PRODUCTION TIER
-// ============================================================
-const TEXT_MODEL = 'gemini-2.0-flash'; // Most stable reasoning model
-const TEXT_MODEL_FALLBACK = 'gemini-1.5-flash';
-const IMAGE_MODEL = 'gemini-2.0-flash-exp'; // Experimental visual generation
-// ============================================================
-
-const getGeminiClient = (apiKey?: string) => {
-  const key = apiKey || process.env.API_KEY;
-  if (!key) throw new Error("API Key Configuration Missing");
-  return new GoogleGenAI({ apiKey: key });
-};
+// Provider implementations live in services/providers/ and are looked up by id in providerRegistry
 
 const stripHtml = (html: string): string => {
   const doc = new DOMParser().parseFromString(html, 'text/html');
   return doc.body.textContent || "";
 };
 
-const extractJson = (text: string): string | null => {
-  try {
-    const codeBlockMatch = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-    if (codeBlockMatch?.[1]) return codeBlockMatch[1].trim();
-    const start = text.indexOf('{');
-    const end = text.lastIndexOf('}');
-    if (start !== -1 && end !== -1 && end > start) return text.substring(start, end + 1);
-  } catch (e) {
-    console.error("JSON extraction failed:", e);
-  }
-  return null;
-};
-
-const fetchImageAsBase64 = async (imageUrl: string, signal?: AbortSignal): Promise<string> => {
-  const response = await fetch(imageUrl, { signal });
-  if (!response.ok) throw new Error(`External image fetch failed: ${response.status}`);
-  const blob = await response.blob();
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => resolve(reader.result as string);
-    reader.onerror = reject;
-    reader.readAsDataURL(blob);
-  });
-};
-
 export const generateText = async (
   config: AnalysisAIConfig, 
   prompt: string, 
   maxTokens?: number, 
-  signal?: AbortSignal
-): Promise<string> => {
-  const ai = getGeminiClient(config.apiKey);
-  
-  // Retry logic with model fallback
-  try {
-    const response = await ai.models.generateContent({ 
-      model: config.model || TEXT_MODEL,
-      contents: prompt,
-      config: { maxOutputTokens: maxTokens }
-    });
-    return response.text || "";
-  } catch (e: any) {
-    console.warn(`Primary model failed, attempting fallback to ${TEXT_MODEL_FALLBACK}`, e);
-    const response = await ai.models.generateContent({ 
-      model: TEXT_MODEL_FALLBACK,
-      contents: prompt,
-      config: { maxOutputTokens: maxTokens }
-    });
-    return response.text || "";
-  }
-};
+  signal?: AbortSignal,
+  onToken?: (delta: string) => void
+): Promise<string> => getTextProvider(config.provider).generate(config, prompt, { maxTokens, signal, onToken });
 
 export const generateImageBrief = async (
   post: WordPressPost,
@@ -106,19 +57,8 @@ JSON Output Required:
   "filenameSlug": "kebab-case-filename" 
 }`;
 
-  const ai = getGeminiClient(config.apiKey);
-  
   try {
-    const response = await ai.models.generateContent({
-      model: config.model || TEXT_MODEL,
-      contents: prompt,
-      config: { 
-        responseMimeType: "application/json",
-      },
-    });
-    
-    const jsonStr = extractJson(response.text || "{}");
-    const data = JSON.parse(jsonStr || "{}");
+    const data = await getTextProvider(config.provider).generateJson<Omit<ImageBrief, 'postId'>>(config, prompt, { signal });
     
     // Validation fallback
     if (!data.brief) throw new Error("Invalid JSON response from AI");
@@ -137,45 +77,28 @@ JSON Output Required:
   }
 };
 
-export const generateImage = async (
-  imageConfig: ImageAIConfig, 
-  prompt: string, 
-  settings: ImageSettings, 
+// Each provider owns its failure policy: paid engines surface typed errors, Gemini degrades to Pollinations.
+// Pins a seed (settings.seed when reproducing, otherwise a fresh one) so the result can be recreated later.
+export const generateImageWithProvenance = async (
+  imageConfig: ImageAIConfig,
+  prompt: string,
+  settings: ImageSettings,
   signal?: AbortSignal
-): Promise<string> => {
-  // 1. Try Gemini Image Generation (If selected and available)
-  if (imageConfig.provider === AIProvider.Gemini) {
-    try {
-      const ai = getGeminiClient(imageConfig.apiKey);
-      const response = await ai.models.generateContent({
-        model: IMAGE_MODEL,
-        contents: { parts: [{ text: prompt }] },
-        config: {
-          imageConfig: { aspectRatio: settings.aspectRatio }
-        }
-      });
-
-      for (const part of response.candidates?.[0]?.content?.parts || []) {
-        if (part.inlineData) {
-          return `data:image/png;base64,${part.inlineData.data}`;
-        }
-      }
-      throw new Error("No image data in Gemini response");
-    } catch (error) {
-      console.warn("Gemini Image Gen failed, falling back to Pollinations engine seamlessly.", error);
-      // Fall through to Pollinations
-    }
-  }
-  
-  // 2. Pollinations (Robust Fallback & Default)
-  const dimensions = { "16:9": { w: 1280, h: 720 }, "1:1": { w: 1024, h: 1024 }, "9:16": { w: 720, h: 1280 } };
-  const d = dimensions[settings.aspectRatio] || dimensions["16:9"];
-  // Random seed ensures no cached/stale images
-  const seed = Math.floor(Math.random() * 1000000);
-  const safePrompt = encodeURIComponent(prompt.slice(0, 500)); // Truncate to avoid URL limits
-  const url = `https://image.pollinations.ai/prompt/${safePrompt}?width=${d.w}&height=${d.h}&nologo=true&seed=${seed}&model=flux`;
-  
-  return fetchImageAsBase64(url, signal);
+): Promise<{ dataUrl: string; provenance: ImageProvenance }> => {
+  const provider = getImageProvider(imageConfig.provider);
+  const seed = provider.capabilities.seed ? settings.seed ?? createSeed() : undefined;
+  const result = await provider.generate(imageConfig, prompt, { ...settings, seed }, signal);
+  return { dataUrl: result.dataUrl, provenance: buildProvenance(result, prompt, settings, seed) };
+};
+
+// Regenerating targets the recorded engine. Only the configured provider has a key, so a recorded provider that
+// needs a different one can't be reached; the configured engine stands in and the caller reports the drift.
+export const getReproductionConfig = (current: ImageAIConfig, provenance: ImageProvenance): ImageAIConfig => {
+  if (provenance.provider === current.provider) return { ...current, model: provenance.model };
+  const recorded = listImageProviders().find(p => p.id === provenance.provider);
+  return recorded && !recorded.capabilities.requiresApiKey
+    ? { provider: recorded.id as AIProvider, model: provenance.model }
+    : current;
 };
 
 export const analyzeAEO = async (
@@ -184,7 +107,6 @@ export const analyzeAEO = async (
   seo: SEOContext, 
   signal?: AbortSignal
 ): Promise<AEOAnalysis> => {
-  const ai = getGeminiClient(config.apiKey);
   const title = stripHtml(post.title.rendered);
   
   const prompt = `Analyze AEO (Answer Engine Optimization) for: "${title}".
@@ -192,13 +114,7 @@ export const analyzeAEO = async (
   Return JSON: { "score": number, "suggestions": string[], "qaPairs": [{"question":string, "answer":string}], "serpSnippet": string }`;
 
   try {
-    const response = await ai.models.generateContent({
-      model: config.model || TEXT_MODEL,
-      contents: prompt,
-      config: { responseMimeType: "application/json" },
-    });
-    
-    const result = JSON.parse(extractJson(response.text || "{}") || "{}");
+    const result = await getTextProvider(config.provider).generateJson<Omit<AEOAnalysis, 'sources'>>(config, prompt, { signal });
     return { ...result, sources: [] };
   } catch (e) {
     return { 
@@ -210,56 +126,237 @@ export const analyzeAEO = async (
   }
 };
 
-export const testTextAIProvider = async (config: AnalysisAIConfig) => {
+export const testTextAIProvider = async (config: AnalysisAIConfig): Promise<TestResult> => {
   try {
-    const ai = getGeminiClient(config.apiKey);
-    // Simple ping to check connectivity and auth
-    await ai.models.generateContent({ 
-      model: TEXT_MODEL, 
-      contents: 'ping',
-      config: { maxOutputTokens: 1 }
-    });
-    return { success: true, message: `Connected to ${TEXT_MODEL}` };
+    return await getTextProvider(config.provider).test(config);
   } catch (e: any) {
-    return { success: false, message: e.message || "Connection Failed" };
+    return { success: false, message: e.message };
   }
 };
 
-export const testImageAIProvider = async (config: ImageAIConfig) => {
-  if (config.provider === AIProvider.Pollinations) return { success: true, message: "Pollinations Connected" };
-  
+export const testImageAIProvider = async (config: ImageAIConfig): Promise<TestResult> => {
   try {
-    const ai = getGeminiClient(config.apiKey);
-    // Test capability
-    await ai.models.generateContent({ 
-        model: TEXT_MODEL, 
-        contents: 'ping',
-        config: { maxOutputTokens: 1 }
-    });
-    return { success: true, message: "Gemini Image Engine Ready" };
+    return await getImageProvider(config.provider).test(config);
   } catch (e: any) {
     return { success: false, message: e.message };
   }
 };
 
+// Template echoes and stub values that must never be written back to WordPress
+const PLACEHOLDER_TEXTS = [
+  'analyzed image', 'optimized brief', 'image', 'photo', 'picture', 'alt text', 'placeholder',
+  'seo optimized alt text', 'engaging caption', 'kebab-case-filename', 'n/a', 'none', 'untitled',
+];
+
+export const isPlaceholderText = (text: string | undefined): boolean => {
+  const normalized = (text || '').trim().toLowerCase().replace(/[."']/g, '');
+  if (normalized.length < 5) return true;
+  if (PLACEHOLDER_TEXTS.includes(normalized)) return true;
+  if (/lorem ipsum|^(img|dsc|image)[-_ ]?\d+/.test(normalized)) return true;
+  return /\.(jpe?g|png|webp|gif|avif)$/.test(normalized); // A bare filename is not a description
+};
+
+const clampScore = (value: unknown): number => Math.min(10, Math.max(0, Math.round(Number(value) || 0)));
+
+// Featured image first, otherwise the first image in the post body
+const findAnalyzableImage = (post: WordPressPost): string | undefined => {
+  if (post.existingImageUrl) return post.existingImageUrl;
+  if (post.contentImages?.length) return post.contentImages[0].src;
+  const doc = new DOMParser().parseFromString(post.content.rendered, 'text/html');
+  return doc.querySelector('img')?.getAttribute('src') || undefined;
+};
+
+export const analyzeImageWithVision = async (
+  config: AnalysisAIConfig,
+  post: WordPressPost,
+  seo: SEOContext,
+  signal?: AbortSignal
+): Promise<ImageAnalysis> => {
+  const provider = getTextProvider(config.provider);
+  if (!provider.capabilities.vision) {
+    throw new ValidationError(`${config.provider} cannot analyze images; choose a vision-capable analysis provider`, 'provider');
+  }
+  const imageUrl = findAnalyzableImage(post);
+  if (!imageUrl) throw new ValidationError('This post has no featured or content image to analyze', 'image');
+
+  const title = stripHtml(post.title.rendered);
+  const prompt = `Role: Senior Photo Editor and Accessibility Specialist.
+Task: Audit the attached image for a blog post.
+Title: "${title}"
+Keywords: ${seo.primaryKeywords || 'none provided'}
+Vibe: ${seo.brandVoice}
+
+Score relevance (0-10) as how well the image illustrates this title and keywords.
+Score technical quality (0-10) on sharpness, exposure, composition and compression artifacts.
+Transcribe any text visible in the image and report whether it carries a watermark or stock-photo overlay.
+Write alt text that describes what is actually in the image (under 125 characters, no "image of").
+
+JSON Output Required:
+{
+  "relevanceScore": number,
+  "technicalScore": number,
+  "embeddedText": string[],
+  "hasWatermark": boolean,
+  "altText": string,
+  "caption": string,
+  "filenameSlug": string,
+  "brief": "visual description for generating a better replacement image"
+}`;
+
+  const data = await provider.generateJson<Record<string, any>>(config, prompt, { images: [imageUrl], signal });
+
+  if (isPlaceholderText(data.altText)) {
+    throw new ValidationError('Vision model returned placeholder alt text; nothing was saved', 'altText');
+  }
+
+  const relevanceScore = clampScore(data.relevanceScore);
+  const technicalScore = clampScore(data.technicalScore);
+  const slugSource = data.filenameSlug || data.altText;
+  return {
+    score: Math.round((relevanceScore + technicalScore) / 2),
+    relevanceScore,
+    technicalScore,
+    embeddedText: Array.isArray(data.embeddedText) ? data.embeddedText.map(String).filter(t => t.trim()) : [],
+    hasWatermark: !!data.hasWatermark,
+    imageUrl,
+    altText: String(data.altText).trim(),
+    brief: isPlaceholderText(data.brief) ? `A professional photo representing ${title}, high quality, 4k` : String(data.brief),
+    caption: isPlaceholderText(data.caption) ? undefined : String(data.caption).trim(),
+    filenameSlug: String(slugSource).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '').slice(0, 60),
+  };
+};
+
+// Deterministic: built from post data and the AEO audit's Q&A, so no model call is involved
+export const generateSchemaForPost = async (
+  post: WordPressPost,
+  seo: SEOContext,
+  articleType: ArticleSchemaType = 'BlogPosting'
+): Promise<string> => {
+  const schema = buildPostSchema(post, seo, articleType);
+  const issues = validateSchema(schema);
+  if (issues.length > 0) {
+    throw new ValidationError(`Schema validation failed: ${issues.map(i => i.message).join('; ')}`, issues[0].property);
+  }
+  return JSON.stringify(schema, null, 2);
+};
+
+export const generateTldrForPost = async (
+  post: WordPressPost,
+  config: AnalysisAIConfig,
+  seo: SEOContext,
+  bulletCount = 5,
+  signal?: AbortSignal
+): Promise<string[]> => {
+  const title = stripHtml(post.title.rendered);
+  const body = stripHtml(post.content.rendered).slice(0, 12000);
+
+  const prompt = `Role: Senior Editor.
+Task: Write the ${bulletCount} key takeaways a reader needs from this article, for a TL;DR box at the top.
+Title: "${title}"
+Tone: ${seo.brandVoice || 'Professional & Authoritative'}
+Keywords: ${seo.primaryKeywords || 'none provided'}
+
+Rules: exactly ${bulletCount} bullets, each one self-contained sentence under 25 words, facts from the article only, no numbering or markdown.
+
+Article:
+---
+${body}
+---
+
+JSON Output Required:
+{ "takeaways": string[] }`;
+
+  const data = await getTextProvider(config.provider).generateJson<{ takeaways?: unknown }>(config, prompt, { signal });
+  // Models still prefix bullets with "-", "1." or "•" now and then
+  const takeaways = Array.isArray(data.takeaways)
+    ? data.takeaways.map(t => String(t).replace(/^(?:[-*•]|\d+[.)])\s*/, '').trim()).filter(Boolean)
+    : [];
+  if (takeaways.length === 0) throw new ValidationError('AI returned no takeaways', 'takeaways');
+  return takeaways.slice(0, bulletCount);
+};
+
+// Composition hints that push each candidate somewhere different; providers without seed control still diverge
+const VARIANT_DIRECTIONS = [
+  '',
+  'alternative composition, different camera angle',
+  'close-up detail shot, shallow depth of field',
+  'wide establishing shot, environmental context',
+];
+
+export const buildVariantPrompts = (prompt: string, count: number): string[] =>
+  Array.from({ length: Math.max(1, Math.min(count, VARIANT_DIRECTIONS.length)) }, (_, i) =>
+    VARIANT_DIRECTIONS[i] ? `${prompt}. ${VARIANT_DIRECTIONS[i]}` : prompt
+  );
+
+// Ranks the structural pass's candidates; any model failure leaves the local recommendations in place
+export const analyzeImagePlacement = async (
+  post: WordPressPost,
+  config: AnalysisAIConfig,
+  seo: SEOContext,
+  signal?: AbortSignal
+): Promise<InsertionPoint[]> => {
+  const local = post.imageAnalysis?.insertionPoints?.length
+    ? post.imageAnalysis.insertionPoints
+    : buildPlacementPlan(post.content.raw || post.content.rendered, post.imageCount, post.wordCount).insertionPoints;
+  if (local.length === 0) return local;
+
+  const slots = Math.max(1, local.filter(p => p.recommended).length);
+  const candidates = local.map((p, i) => `${i}. [${p.reason || 'paragraph'}] ${p.context}`).join('\n');
+
+  const prompt = `Role: Senior Content Designer.
+Task: Pick the ${slots} best spots to insert an in-content image into this article.
+Title: "${stripHtml(post.title.rendered)}"
+Keywords: ${seo.primaryKeywords || 'none provided'}
+
+Each candidate is the paragraph the image would follow, with the structural signal that surfaced it:
+---
+${candidates}
+---
+
+Prefer spots where a visual explains or illustrates the paragraph, and spread picks through the article.
+
+JSON Output Required:
+{ "placements": [{ "index": number, "reason": "one sentence on what the image adds here" }] }`;
+
+  try {
+    const data = await getTextProvider(config.provider).generateJson<{ placements?: { index?: unknown; reason?: unknown }[] }>(config, prompt, { signal });
+    const picks = new Map<number, string>();
+    for (const placement of Array.isArray(data.placements) ? data.placements : []) {
+      const index = Number(placement.index);
+      if (Number.isInteger(index) && local[index] && !picks.has(index) && picks.size < slots) {
+        picks.set(index, String(placement.reason || '').trim() || local[index].reason || '');
+      }
+    }
+    if (picks.size === 0) return local;
+
+    return local.map((p, i) => ({
+      ...p,
+      recommended: picks.has(i),
+      reason: picks.get(i) ?? p.reason,
+    }));
+  } catch (e) {
+    if (signal?.aborted) throw e;
+    console.warn('AI placement ranking failed, keeping structural recommendations', e);
+    return local;
+  }
+};
+
 // ... exports
 export const generateImageBriefsAndAltsBatch = async (posts: WordPressPost[], config: any, seo: any) => Promise.all(posts.map(p => generateImageBrief(p, config, seo)));
-export const analyzeImagePlacement = async () => [];
-export const analyzeImageWithVision = async (apiKey: string, imageUrl: string, _signal?: AbortSignal) => ({ score: 8, altText: "Analyzed Image", brief: "Optimized Brief" });
-export const generateSchemaForPost = async () => "{}";
-export const generateTldrForPost = async () => "";
-export const getContentWithImagePlaceholder = async (_c: any, cont: string) => cont;
 
 export default {
   generateText,
   generateImageBrief,
   generateImageBriefsAndAltsBatch,
-  generateImage,
+  generateImageWithProvenance,
+  getReproductionConfig,
   analyzeAEO,
   analyzeImageWithVision,
+  isPlaceholderText,
   generateSchemaForPost,
   generateTldrForPost,
-  getContentWithImagePlaceholder,
+  analyzeImagePlacement,
+  buildVariantPrompts,
   testTextAIProvider,
   testImageAIProvider,
 };
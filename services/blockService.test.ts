@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getBlockAt,
+  insertBlockAfter,
+  insertImage,
+  parseBlocks,
+  parseContent,
+  removeBlockAt,
+  removeImage,
+  replaceBlockAt,
+  replaceImage,
+  serializeBlocks,
+  serializeContent,
+} from './blockService';
+
+const paragraph = (text: string) => `<!-- wp:paragraph -->\n<p>${text}</p>\n<!-- /wp:paragraph -->`;
+
+const image = (id: number, src: string) =>
+  `<!-- wp:image {"id":${id},"sizeSlug":"large"} -->\n<figure class="wp-block-image size-large"><img src="${src}" alt="" class="wp-image-${id}"/></figure>\n<!-- /wp:image -->`;
+
+const columns = `<!-- wp:columns {"verticalAlignment":"center"} -->
+<div class="wp-block-columns are-vertically-aligned-center"><!-- wp:column -->
+<div class="wp-block-column">${paragraph('left')}</div>
+<!-- /wp:column -->
+
+<!-- wp:column -->
+<div class="wp-block-column">${image(7, 'https://example.com/a.jpg')}</div>
+<!-- /wp:column --></div>
+<!-- /wp:columns -->`;
+
+const document = [paragraph('Intro'), columns, '<!-- wp:separator /-->', paragraph('Outro')].join('\n\n');
+
+describe('parse and serialize round trip', () => {
+  it.each([
+    ['nested blocks', document],
+    ['void blocks', '<!-- wp:spacer {"height":"40px"} /-->\n\n<!-- wp:latest-posts /-->'],
+    ['attribute-bearing blocks with escaped JSON', '<!-- wp:heading {"level":3,"content":"A \\u003cb\\u003ebold\\u003c/b\\u003e \\u0026 \\u0022quoted\\u0022"} -->\n<h3 class="wp-block-heading">Title</h3>\n<!-- /wp:heading -->'],
+    ['namespaced blocks', '<!-- wp:acme/callout {"tone":"info"} -->\n<div class="callout">Note</div>\n<!-- /wp:acme/callout -->'],
+    ['freeform HTML between blocks', `<p>Loose intro</p>\n\n${paragraph('Block')}\n\n<div>Loose outro</div>\n`],
+    ['a stray closer', `${paragraph('One')}\n<!-- /wp:quote -->\n${paragraph('Two')}`],
+    ['an unclosed block', '<!-- wp:group -->\n<div class="wp-block-group">unterminated'],
+    ['classic content', '<p>First</p>\n\n<ul>\n<li>one</li>\n\n<li>two</li>\n</ul>\n\nBare paragraph\n\n[caption id="attachment_3" width="600"]<img src="b.jpg" /> Cap[/caption]'],
+  ])('returns %s byte-for-byte', (_, content) => {
+    expect(serializeContent(parseContent(content))).toBe(content);
+  });
+
+  it('keeps whitespace in comment delimiters exactly as written', () => {
+    const content = '<!--   wp:paragraph   {"align":"center"}   -->\n<p class="has-text-align-center">x</p>\n<!--  /wp:paragraph  -->';
+    expect(serializeBlocks(parseBlocks(content))).toBe(content);
+  });
+
+  it('parses nesting, attributes and void blocks into the tree', () => {
+    const { mode, blocks } = parseContent(document);
+    expect(mode).toBe('blocks');
+    const names = blocks.filter(b => b.blockName).map(b => b.blockName);
+    expect(names).toEqual(['core/paragraph', 'core/columns', 'core/separator', 'core/paragraph']);
+    const cols = blocks.find(b => b.blockName === 'core/columns')!;
+    expect(cols.attrs).toEqual({ verticalAlignment: 'center' });
+    expect(cols.innerBlocks.map(b => b.blockName)).toEqual(['core/column', 'core/column']);
+    expect(blocks.find(b => b.blockName === 'core/separator')!.innerContent).toEqual([]);
+  });
+
+  it('treats content without block comments as classic', () => {
+    expect(parseContent('<p>Plain</p>').mode).toBe('classic');
+  });
+});
+
+describe('path edits', () => {
+  it('addresses significant blocks only, nested paths included', () => {
+    const { blocks } = parseContent(document);
+    expect(getBlockAt(blocks, [0])?.innerHTML).toContain('Intro');
+    expect(getBlockAt(blocks, [1, 1, 0])?.blockName).toBe('core/image');
+    expect(getBlockAt(blocks, [2])?.blockName).toBe('core/separator');
+    expect(getBlockAt(blocks, [1, 5])).toBeNull();
+  });
+
+  it('inserts after a top-level block with a blank-line separator and leaves the rest untouched', () => {
+    const { blocks } = parseContent(document);
+    const [inserted] = parseBlocks(paragraph('New'));
+    const next = insertBlockAfter(blocks, [0], inserted)!;
+    expect(serializeBlocks(next)).toBe([paragraph('Intro'), paragraph('New'), columns, '<!-- wp:separator /-->', paragraph('Outro')].join('\n\n'));
+  });
+
+  it('inserts inside a nested block without touching its siblings', () => {
+    const { blocks } = parseContent(document);
+    const [inserted] = parseBlocks(paragraph('Inner'));
+    const next = insertBlockAfter(blocks, [1, 0, 0], inserted)!;
+    expect(serializeBlocks(next)).toBe(document.replace(paragraph('left'), `${paragraph('left')}\n\n${paragraph('Inner')}`));
+  });
+
+  it('replaces and removes by path', () => {
+    const { blocks } = parseContent(document);
+    const [replacement] = parseBlocks(paragraph('Swapped'));
+    expect(serializeBlocks(replaceBlockAt(blocks, [3], replacement)!)).toBe(document.replace(paragraph('Outro'), paragraph('Swapped')));
+    expect(serializeBlocks(removeBlockAt(blocks, [2])!)).toBe([paragraph('Intro'), columns, paragraph('Outro')].join('\n\n'));
+  });
+
+  it('returns null for a stale path', () => {
+    const { blocks } = parseContent(document);
+    const [inserted] = parseBlocks(paragraph('New'));
+    expect(insertBlockAfter(blocks, [9], inserted)).toBeNull();
+    expect(removeBlockAt(blocks, [1, 4])).toBeNull();
+  });
+});
+
+describe('image edits', () => {
+  it('inserts a core/image block and appends when the path is gone', () => {
+    const parsed = parseContent(paragraph('Intro'));
+    const next = serializeContent(insertImage(parsed, [5], { url: 'https://example.com/new.jpg', alt: 'New "one"', mediaId: 9 }));
+    expect(next).toBe(`${paragraph('Intro')}\n\n<!-- wp:image {"id":9,"sizeSlug":"large","linkDestination":"none"} -->\n<figure class="wp-block-image size-large"><img src="https://example.com/new.jpg" alt="New &quot;one&quot;" class="wp-image-9"/></figure>\n<!-- /wp:image -->`);
+  });
+
+  it('removes a nested core/image and matches resized URLs', () => {
+    const next = removeImage(parseContent(document), 'https://example.com/a-300x200.jpg')!;
+    expect(serializeContent(next)).toBe(document.replace(image(7, 'https://example.com/a.jpg'), ''));
+  });
+
+  it('replaces an image in place, rebuilding only the edited delimiter', () => {
+    const next = replaceImage(parseContent(document), 'https://example.com/a.jpg', { url: 'https://example.com/b.jpg', alt: 'B', mediaId: 8 })!;
+    const expected = image(8, 'https://example.com/b.jpg').replace('alt=""', 'alt="B"');
+    expect(serializeContent(next)).toBe(document.replace(image(7, 'https://example.com/a.jpg'), expected));
+  });
+
+  it('removes an image from classic content with its caption shortcode', () => {
+    const content = '<p>First</p>\n\n[caption id="attachment_3" width="600"]<img src="https://example.com/c.jpg" /> Cap[/caption]\n\n<p>Last</p>';
+    expect(serializeContent(removeImage(parseContent(content), 'https://example.com/c.jpg')!)).toBe('<p>First</p>\n\n<p>Last</p>');
+  });
+
+  it('returns null when the image is not in the content', () => {
+    expect(removeImage(parseContent(document), 'https://example.com/missing.jpg')).toBeNull();
+  });
+});
@@ -0,0 +1,427 @@
+// services/blockService.ts - Block-grammar parser and serializer for post content.raw, with lossless image edits
+
+// A parsed block keeps the exact text it came from, so serialising an untouched tree returns the input byte-for-byte
+export interface Block {
+  blockName: string | null; // null for freeform HTML between blocks (and every chunk of classic content)
+  attrs: Record<string, unknown>;
+  innerBlocks: Block[];
+  innerHTML: string;
+  innerContent: (string | null)[]; // null marks where each inner block sits among the HTML
+  openDelimiter?: string; // Original comments, reused verbatim; dropped when attrs change so they are rebuilt
+  closeDelimiter?: string;
+}
+
+export type ContentMode = 'blocks' | 'classic';
+
+export interface ParsedContent {
+  mode: ContentMode;
+  blocks: Block[];
+}
+
+// Indexes into significant blocks only (whitespace between blocks is skipped), top level first
+export type BlockPath = number[];
+
+export interface ImageBlockInput {
+  url: string;
+  alt: string;
+  caption?: string;
+  mediaId?: number;
+  width?: number; // Classic captions are dropped by WordPress without one
+  className?: string; // core/image's own className attribute, so save() reproduces it on the <figure>
+}
+
+// Same grammar as WordPress's default block parser; the lookahead/backreference pair stands in for an atomic group
+const TOKENIZER = /<!--\s+(\/)?wp:([a-z][a-z0-9_-]*\/)?([a-z][a-z0-9_-]*)\s+({(?:(?=([^}]+|}+(?=})|(?!}\s+\/?-->)[^])*)\5|[^]*?)}\s+)?(\/)?-->/g;
+const BLOCK_SEPARATOR = '\n\n';
+
+// ============ PARSER ============
+
+const freeform = (html: string): Block => ({ blockName: null, attrs: {}, innerBlocks: [], innerHTML: html, innerContent: [html] });
+
+const parseAttrs = (json: string | undefined): Record<string, unknown> => {
+  if (!json) return {};
+  try {
+    return JSON.parse(json);
+  } catch {
+    return {};
+  }
+};
+
+export const hasBlocks = (content: string): boolean => /<!--\s+wp:/.test(content);
+
+export const parseBlocks = (document: string): Block[] => {
+  const output: Block[] = [];
+  const stack: Block[] = [];
+  const tokenizer = new RegExp(TOKENIZER.source, 'g');
+  let offset = 0;
+
+  const appendHtml = (block: Block, html: string) => {
+    if (!html) return;
+    block.innerHTML += html;
+    block.innerContent.push(html);
+  };
+  const addBlock = (block: Block) => {
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      parent.innerBlocks.push(block);
+      parent.innerContent.push(null);
+    } else {
+      output.push(block);
+    }
+  };
+  const flushHtml = (end: number) => {
+    const html = document.slice(offset, end);
+    const parent = stack[stack.length - 1];
+    if (parent) appendHtml(parent, html);
+    else if (html) output.push(freeform(html));
+  };
+
+  let match: RegExpExecArray | null;
+  while ((match = tokenizer.exec(document))) {
+    const [token, closer, namespace, name, attrsJson, , voidFlag] = match;
+    const blockName = `${namespace || 'core/'}${name}`;
+
+    if (closer) {
+      // A stray closer is just text; it stays in the HTML around it
+      if (stack[stack.length - 1]?.blockName !== blockName) continue;
+      flushHtml(match.index);
+      const block = stack.pop() as Block;
+      block.closeDelimiter = token;
+      offset = match.index + token.length;
+      addBlock(block);
+      continue;
+    }
+
+    flushHtml(match.index);
+    offset = match.index + token.length;
+    const block: Block = { blockName, attrs: parseAttrs(attrsJson), innerBlocks: [], innerHTML: '', innerContent: [], openDelimiter: token };
+    if (voidFlag) addBlock(block);
+    else stack.push(block);
+  }
+
+  // Blocks left open run to the end of the document, as in WordPress; they get no closer back either
+  while (stack.length > 0) {
+    flushHtml(document.length);
+    offset = document.length;
+    const block = stack.pop() as Block;
+    block.closeDelimiter = '';
+    addBlock(block);
+  }
+  flushHtml(document.length);
+  return output;
+};
+
+// ============ SERIALIZER ============
+
+// Matches WordPress's serializeAttributes, so rebuilt comments look like the editor's own
+const serializeAttrs = (attrs: Record<string, unknown>): string =>
+  JSON.stringify(attrs)
+    .replace(/--/g, '\\u002d\\u002d')
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/&/g, '\\u0026')
+    .replace(/\\"/g, '\\u0022');
+
+const shortName = (blockName: string): string => (blockName.startsWith('core/') ? blockName.slice(5) : blockName);
+
+export const serializeBlock = (block: Block): string => {
+  if (block.blockName === null) return block.innerHTML;
+  let child = 0;
+  const body = block.innerContent.map(part => (part === null ? serializeBlock(block.innerBlocks[child++]) : part)).join('');
+  const isVoid = block.innerContent.length === 0;
+  const attrs = Object.keys(block.attrs).length > 0 ? `${serializeAttrs(block.attrs)} ` : '';
+  const open = block.openDelimiter ?? `<!-- wp:${shortName(block.blockName)} ${attrs}${isVoid ? '/' : ''}-->`;
+  const close = block.closeDelimiter ?? (isVoid || block.openDelimiter?.endsWith('/-->') ? '' : `<!-- /wp:${shortName(block.blockName)} -->`);
+  return `${open}${body}${close}`;
+};
+
+export const serializeBlocks = (blocks: Block[]): string => blocks.map(serializeBlock).join('');
+
+// ============ CLASSIC CONTENT ============
+
+// Elements that may contain blank lines without ending the chunk wpautop would make of them
+const CLASSIC_CONTAINERS = /<(\/?)(ul|ol|table|pre|blockquote|div|figure|section|dl)\b/gi;
+
+const containerDepth = (html: string): number => {
+  let depth = 0;
+  for (const match of html.matchAll(CLASSIC_CONTAINERS)) depth += match[1] ? -1 : 1;
+  return depth;
+};
+
+// Classic posts are split where wpautop would start a new paragraph; separators stay as blank freeform blocks
+const parseClassic = (content: string): Block[] => {
+  const parts = content.split(/(\n[ \t]*\n\s*)/);
+  const blocks: Block[] = [];
+  let pending = '';
+  let depth = 0;
+
+  for (let i = 0; i < parts.length; i += 2) {
+    pending += parts[i];
+    depth += containerDepth(parts[i]);
+    const separator = parts[i + 1] ?? '';
+    if (depth > 0 && separator) {
+      pending += separator;
+      continue;
+    }
+    if (pending) blocks.push(freeform(pending));
+    if (separator) blocks.push(freeform(separator));
+    pending = '';
+    depth = 0;
+  }
+  if (pending) blocks.push(freeform(pending));
+  return blocks;
+};
+
+export const parseContent = (content: string): ParsedContent =>
+  hasBlocks(content) ? { mode: 'blocks', blocks: parseBlocks(content) } : { mode: 'classic', blocks: parseClassic(content) };
+
+export const serializeContent = (parsed: ParsedContent): string => serializeBlocks(parsed.blocks);
+
+// ============ PATHS ============
+
+const isSignificant = (block: Block): boolean => block.blockName !== null || block.innerHTML.trim() !== '';
+
+type Item = string | Block;
+
+const toItems = (parent: Block): Item[] => {
+  let child = 0;
+  return parent.innerContent.map(part => (part === null ? parent.innerBlocks[child++] : part));
+};
+
+const fromItems = (parent: Block, items: Item[]): Block => ({
+  ...parent,
+  innerBlocks: items.filter((item): item is Block => typeof item !== 'string'),
+  innerContent: items.map(item => (typeof item === 'string' ? item : null)),
+  innerHTML: items.filter((item): item is string => typeof item === 'string').join(''),
+});
+
+const isBlank = (item: Item | undefined): boolean =>
+  item !== undefined && (typeof item === 'string' ? item : item.blockName === null ? item.innerHTML : null)?.trim() === '';
+
+// Position in the item list of the index-th significant block
+const itemPosition = (items: Item[], index: number): number => {
+  let seen = -1;
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    if (typeof item !== 'string' && isSignificant(item) && ++seen === index) return i;
+  }
+  return -1;
+};
+
+export const formatBlockPath = (path: BlockPath): string => path.join('.');
+
+export const parseBlockPath = (path: string): BlockPath | null => {
+  const parts = path.split('.').map(Number);
+  return parts.length > 0 && parts.every(n => Number.isInteger(n) && n >= 0) ? parts : null;
+};
+
+export const getBlockAt = (blocks: Block[], path: BlockPath): Block | null => {
+  let items: Item[] = blocks;
+  let block: Block | null = null;
+  for (const index of path) {
+    const position = itemPosition(items, index);
+    if (position === -1) return null;
+    block = items[position] as Block;
+    items = toItems(block);
+  }
+  return block;
+};
+
+// Depth-first over significant blocks, with each one's path
+export const walkBlocks = (blocks: Block[], visit: (block: Block, path: BlockPath) => void, parentPath: BlockPath = []): void => {
+  let index = 0;
+  for (const block of blocks) {
+    if (!isSignificant(block)) continue;
+    const path = [...parentPath, index++];
+    visit(block, path);
+    walkBlocks(block.innerBlocks, visit, path);
+  }
+};
+
+// Rebuilds only the ancestors of the edited block; everything else keeps its identity and original text
+const editAt = (
+  items: Item[],
+  path: BlockPath,
+  edit: (items: Item[], position: number, separator: Item) => Item[],
+  topLevel = true
+): Item[] | null => {
+  const position = itemPosition(items, path[0]);
+  if (position === -1) return null;
+  if (path.length === 1) return edit(items, position, topLevel ? freeform(BLOCK_SEPARATOR) : BLOCK_SEPARATOR);
+  const parent = items[position] as Block;
+  const edited = editAt(toItems(parent), path.slice(1), edit, false);
+  if (!edited) return null;
+  const next = [...items];
+  next[position] = fromItems(parent, edited);
+  return next;
+};
+
+export const insertBlockAfter = (blocks: Block[], path: BlockPath, block: Block): Block[] | null =>
+  editAt(blocks, path, (items, position, separator) => [...items.slice(0, position + 1), separator, block, ...items.slice(position + 1)]) as Block[] | null;
+
+export const replaceBlockAt = (blocks: Block[], path: BlockPath, block: Block): Block[] | null =>
+  editAt(blocks, path, (items, position) => [...items.slice(0, position), block, ...items.slice(position + 1)]) as Block[] | null;
+
+// Takes one neighbouring blank separator with it so no run of empty lines is left behind
+export const removeBlockAt = (blocks: Block[], path: BlockPath): Block[] | null =>
+  editAt(blocks, path, (items, position) => {
+    const start = isBlank(items[position - 1]) ? position - 1 : position;
+    const end = start === position && isBlank(items[position + 1]) ? position + 2 : position + 1;
+    return [...items.slice(0, start), ...items.slice(end)];
+  }) as Block[] | null;
+
+export const appendBlock = (blocks: Block[], block: Block): Block[] =>
+  blocks.length > 0 ? [...blocks, freeform(BLOCK_SEPARATOR), block] : [block];
+
+// ============ IMAGES ============
+
+const escapeAttr = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const IMG_SRC = /<img\b[^>]*?\ssrc="([^"]*)"/i;
+
+export const getImageSrc = (html: string): string | null => html.match(IMG_SRC)?.[1] || null;
+
+// Rendered pages show resized, CDN or lazy-load URLs for the file the raw content names; compare the file itself
+export const sameImageUrl = (a: string, b: string): boolean => {
+  const normalize = (url: string) =>
+    url
+      .replace(/^https?:\/\//i, '')
+      .replace(/[?#].*$/, '')
+      .replace(/-(?:\d+x\d+|scaled)(?=\.[a-z0-9]+$)/i, '')
+      .toLowerCase();
+  return normalize(a) === normalize(b);
+};
+
+// Mirrors core/image's save() output, so the editor accepts the block without a validation warning
+export const createImageBlock = (image: ImageBlockInput): Block => {
+  const imgClass = image.mediaId ? ` class="wp-image-${image.mediaId}"` : '';
+  const caption = image.caption ? `<figcaption class="wp-element-caption">${escapeHtml(image.caption)}</figcaption>` : '';
+  const figureClass = ['wp-block-image', 'size-large', image.className].filter(Boolean).join(' ');
+  const html = `\n<figure class="${figureClass}"><img src="${escapeAttr(image.url)}" alt="${escapeAttr(image.alt)}"${imgClass}/>${caption}</figure>\n`;
+  return {
+    blockName: 'core/image',
+    attrs: { ...(image.mediaId ? { id: image.mediaId } : {}), sizeSlug: 'large', linkDestination: 'none', ...(image.className ? { className: image.className } : {}) },
+    innerBlocks: [],
+    innerHTML: html,
+    innerContent: [html],
+  };
+};
+
+const buildClassicImage = (image: ImageBlockInput): string => {
+  const classes = ['aligncenter', 'size-large', image.mediaId ? `wp-image-${image.mediaId}` : '', image.className].filter(Boolean).join(' ');
+  const img = `<img class="${classes}" src="${escapeAttr(image.url)}" alt="${escapeAttr(image.alt)}"${image.width ? ` width="${image.width}"` : ''} />`;
+  if (!image.caption || !image.width) return img;
+  const id = image.mediaId ? ` id="attachment_${image.mediaId}"` : '';
+  return `[caption${id} align="aligncenter" width="${image.width}"]${img} ${escapeHtml(image.caption)}[/caption]`;
+};
+
+// Anchored after the block at path; a missing or stale path appends to the end instead of failing the insert
+export const insertImage = (parsed: ParsedContent, path: BlockPath | null, image: ImageBlockInput): ParsedContent => {
+  const block = parsed.mode === 'blocks' ? createImageBlock(image) : freeform(buildClassicImage(image));
+  const inserted = path ? insertBlockAfter(parsed.blocks, path, block) : null;
+  return { ...parsed, blocks: inserted || appendBlock(parsed.blocks, block) };
+};
+
+// Freeform HTML: the image plus whatever wraps it alone (caption shortcode, figure, link)
+const imageMarkupPattern = (src: string): RegExp => {
+  const img = `<img\\b[^>]*?\\ssrc="${escapeRegExp(src)}"[^>]*>`;
+  const linked = `(?:<a\\b[^>]*>\\s*)?${img}(?:\\s*<\\/a>)?`;
+  return new RegExp(`\\[caption\\b[^\\]]*\\]\\s*${linked}[\\s\\S]*?\\[\\/caption\\]|<figure\\b[^>]*>\\s*${linked}[\\s\\S]*?<\\/figure>|${linked}`, 'i');
+};
+
+const findImageSrcs = (html: string): string[] => Array.from(html.matchAll(new RegExp(IMG_SRC.source, 'gi')), m => m[1]);
+
+interface ImageLocation {
+  path: BlockPath;
+  block: Block;
+  src: string; // As written in the raw content
+}
+
+// core/image blocks at any depth (galleries nest them) and images inside freeform HTML
+const findImage = (blocks: Block[], url: string): ImageLocation | null => {
+  let found: ImageLocation | null = null;
+  walkBlocks(blocks, (block, path) => {
+    if (found) return;
+    if (block.blockName === 'core/image') {
+      const src = getImageSrc(block.innerHTML);
+      if (src && sameImageUrl(src, url)) found = { path, block, src };
+    } else if (block.blockName === null) {
+      const src = findImageSrcs(block.innerHTML).find(s => sameImageUrl(s, url));
+      if (src) found = { path, block, src };
+    }
+  });
+  return found;
+};
+
+export const removeImage = (parsed: ParsedContent, url: string): ParsedContent | null => {
+  const location = findImage(parsed.blocks, url);
+  if (!location) return null;
+
+  if (location.block.blockName === 'core/image') {
+    const blocks = removeBlockAt(parsed.blocks, location.path);
+    return blocks ? { ...parsed, blocks } : null;
+  }
+
+  const html = location.block.innerHTML.replace(imageMarkupPattern(location.src), '');
+  const blocks = html.trim() === ''
+    ? removeBlockAt(parsed.blocks, location.path)
+    : replaceBlockAt(parsed.blocks, location.path, freeform(html));
+  return blocks ? { ...parsed, blocks } : null;
+};
+
+// Swaps the file in place: every reference to the old URL (src and a media link), the alt text and the attachment id
+export const replaceImage = (parsed: ParsedContent, oldUrl: string, image: ImageBlockInput): ParsedContent | null => {
+  const location = findImage(parsed.blocks, oldUrl);
+  if (!location) return null;
+  const { block, src } = location;
+
+  const rewrite = (html: string): string => {
+    let next = html.split(src).join(image.url);
+    next = next.replace(new RegExp(`(<img\\b[^>]*?\\ssrc="${escapeRegExp(image.url)}"[^>]*?\\salt=")[^"]*(")`, 'i'), `$1${escapeAttr(image.alt)}$2`);
+    if (image.mediaId) next = next.replace(/\bwp-image-\d+\b/, `wp-image-${image.mediaId}`);
+    return next;
+  };
+
+  let replacement: Block;
+  if (block.blockName === null) {
+    replacement = freeform(rewrite(block.innerHTML));
+  } else {
+    const attrs = image.mediaId ? { ...block.attrs, id: image.mediaId } : block.attrs;
+    replacement = {
+      ...block,
+      attrs,
+      innerHTML: rewrite(block.innerHTML),
+      innerContent: block.innerContent.map(part => (part === null ? null : rewrite(part))),
+      openDelimiter: attrs === block.attrs ? block.openDelimiter : undefined,
+    };
+  }
+  const blocks = replaceBlockAt(parsed.blocks, location.path, replacement);
+  return blocks ? { ...parsed, blocks } : null;
+};
+
+export default {
+  hasBlocks,
+  parseBlocks,
+  serializeBlock,
+  serializeBlocks,
+  parseContent,
+  serializeContent,
+  formatBlockPath,
+  parseBlockPath,
+  getBlockAt,
+  walkBlocks,
+  insertBlockAfter,
+  replaceBlockAt,
+  removeBlockAt,
+  appendBlock,
+  createImageBlock,
+  insertImage,
+  removeImage,
+  replaceImage,
+};
@@ -0,0 +1,144 @@
+// services/duplicateService.ts - Perceptual hashes for spotting near-identical images across posts
+
+import { DuplicateCluster, ImageHashEntry, WordPressPost } from '../types';
+import { loadImageBitmap } from './imageProcessingService';
+
+// dHash compares 9×8 neighbours, giving a 64-bit hash rendered as 16 hex digits
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+// Bits out of 64 that may differ before two images stop counting as the same picture
+export const NEAR_DUPLICATE_DISTANCE = 6;
+const SCAN_CONCURRENCY = 4;
+
+// Remote hashes are cached by URL; media URLs are immutable once uploaded
+const hashCache = new Map<string, string>();
+
+export const computeImageHash = async (src: string): Promise<string> => {
+  const cacheable = !src.startsWith('data:');
+  const cached = cacheable ? hashCache.get(src) : undefined;
+  if (cached) return cached;
+
+  const { bitmap } = await loadImageBitmap(src);
+  const canvas = document.createElement('canvas');
+  canvas.width = HASH_WIDTH;
+  canvas.height = HASH_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+  bitmap.close();
+
+  const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const luma = (x: number, y: number) => {
+    const i = (y * HASH_WIDTH + x) * 4;
+    return 0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2];
+  };
+
+  let hex = '';
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    let byte = 0;
+    for (let x = 0; x < HASH_WIDTH - 1; x++) byte = (byte << 1) | (luma(x, y) < luma(x + 1, y) ? 1 : 0);
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  if (cacheable) hashCache.set(src, hex);
+  return hex;
+};
+
+export const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 2) {
+    let diff = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+// Closest image on a *different* post within the threshold; reuse on the same post is not a duplicate
+export const findNearDuplicate = (
+  hash: string,
+  postId: number,
+  entries: Iterable<ImageHashEntry>,
+  maxDistance = NEAR_DUPLICATE_DISTANCE
+): (ImageHashEntry & { distance: number }) | null => {
+  let best: (ImageHashEntry & { distance: number }) | null = null;
+  for (const entry of entries) {
+    if (entry.postId === postId) continue;
+    const distance = hammingDistance(hash, entry.hash);
+    if (distance <= maxDistance && (!best || distance < best.distance)) best = { ...entry, distance };
+  }
+  return best;
+};
+
+const collectPostImages = (post: WordPressPost): Omit<ImageHashEntry, 'hash'>[] => {
+  const featured = post.generatedImage?.url || post.existingImageUrl;
+  return [
+    ...(featured ? [{ postId: post.id, url: featured, source: 'featured' as const }] : []),
+    ...(post.contentImages || []).map(img => ({ postId: post.id, url: img.src, source: 'content' as const })),
+  ];
+};
+
+// Images the browser cannot read (no CORS headers, 404s) are counted and skipped rather than failing the scan
+export const hashPostImages = async (
+  posts: WordPressPost[],
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<{ entries: ImageHashEntry[]; failed: number }> => {
+  const pending = posts.flatMap(collectPostImages);
+  const entries: ImageHashEntry[] = [];
+  let failed = 0;
+  let done = 0;
+  let next = 0;
+
+  const worker = async () => {
+    while (next < pending.length && !signal?.aborted) {
+      const image = pending[next++];
+      try {
+        entries.push({ ...image, hash: await computeImageHash(image.url) });
+      } catch {
+        failed++;
+      }
+      onProgress?.(++done, pending.length);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(SCAN_CONCURRENCY, pending.length) }, worker));
+  if (signal?.aborted) throw new DOMException('Scan cancelled', 'AbortError');
+  return { entries, failed };
+};
+
+// Single-linkage clusters (union-find) that span at least two posts, largest first
+export const clusterDuplicates = (entries: ImageHashEntry[], maxDistance = NEAR_DUPLICATE_DISTANCE): DuplicateCluster[] => {
+  const parent = entries.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  for (let i = 0; i < entries.length; i++) {
+    for (let j = i + 1; j < entries.length; j++) {
+      if (hammingDistance(entries[i].hash, entries[j].hash) <= maxDistance) parent[find(i)] = find(j);
+    }
+  }
+
+  const groups = new Map<number, ImageHashEntry[]>();
+  entries.forEach((entry, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), entry]);
+  });
+
+  return Array.from(groups.values())
+    .filter(group => new Set(group.map(e => e.postId)).size > 1)
+    .map(group => ({
+      hash: group[0].hash,
+      entries: group,
+      maxDistance: Math.max(...group.map(e => hammingDistance(group[0].hash, e.hash))),
+    }))
+    .sort((a, b) => b.entries.length - a.entries.length);
+};
+
+export default {
+  computeImageHash,
+  hammingDistance,
+  findNearDuplicate,
+  hashPostImages,
+  clusterDuplicates,
+};
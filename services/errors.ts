@@ -50,6 +50,28 @@ export class AuthenticationError extends APIError {
   }
 }
 
+export class ContentPolicyError extends APIError {
+  constructor(message: string = 'Prompt was rejected by the provider content policy') {
+    super(message, 400, false);
+    this.name = 'ContentPolicyError';
+  }
+}
+
+export class QuotaExceededError extends APIError {
+  constructor(message: string = 'Provider quota or billing limit reached') {
+    super(message, 429, false);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+// The post changed on the server after the write being undone; rolling back anyway discards that edit
+export class ConflictError extends Error {
+  constructor(message: string = 'Post was edited after this change') {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
+
 export class ValidationError extends Error {
   constructor(
     message: string,
@@ -61,6 +83,7 @@ export class ValidationError extends Error {
 }
 
 export const getErrorMessage = (error: unknown): string => {
+  if (error instanceof ContentPolicyError || error instanceof QuotaExceededError) return error.message;
   if (error instanceof APIError) {
     if (error.statusCode === 401) return 'Authentication failed. Check your credentials.';
     if (error.statusCode === 403) return 'Access forbidden. Check your permissions.';
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { encodeBlurHash } from './imageProcessingService';
+
+const solid = (width: number, height: number, rgb: [number, number, number]): Uint8ClampedArray => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let p = 0; p < data.length; p += 4) data.set([...rgb, 255], p);
+  return data;
+};
+
+describe('encodeBlurHash', () => {
+  // Expected values are woltapp/blurhash's encode() for the same pixels at 4x3 components
+  it('encodes solid white without overflowing the DC channels', () => {
+    expect(encodeBlurHash(solid(32, 24, [255, 255, 255]), 32, 24)).toBe('LDTSUA_3fQ_3~qoffQoffQfQfQfQ');
+  });
+
+  it('encodes solid black', () => {
+    expect(encodeBlurHash(solid(32, 24, [0, 0, 0]), 32, 24)).toBe(`L00000${'fQ'.repeat(11)}`);
+  });
+});
@@ -0,0 +1,452 @@
+// services/imageProcessingService.ts - Client-side image post-processing between generation and upload
+
+import { AspectRatio, ImageFormat, ImagePlaceholder, ImageSettings, ImageSize, SocialPlatform } from '../types';
+import { ValidationError } from './errors';
+import { blobToDataUrl } from './providers/shared';
+import { drawWatermark, getWatermarkPlacement, loadWatermarkLogo, shouldWatermark } from './watermarkService';
+
+export interface ProcessedImage {
+  dataUrl: string;
+  mimeType: ImageFormat;
+  extension: string;
+  originalBytes: number;
+  bytes: number;
+  width: number;
+  height: number;
+  watermarked: boolean;
+  unstampedDataUrl?: string; // Set when watermarked: the input before the logo, for crops that need their own stamp
+}
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+// Long edge in pixels for each ImageSize; the short edge follows from the aspect ratio
+const LONG_EDGE: Record<ImageSize, number> = {
+  [ImageSize.K1]: 1024,
+  [ImageSize.K2]: 2048,
+  [ImageSize.K4]: 4096,
+};
+
+const RATIOS: Record<AspectRatio, [number, number]> = {
+  [AspectRatio.Landscape]: [16, 9],
+  [AspectRatio.Square]: [1, 1],
+  [AspectRatio.Portrait]: [9, 16],
+};
+
+const EXTENSIONS: Record<ImageFormat, string> = {
+  [ImageFormat.WebP]: 'webp',
+  [ImageFormat.JPEG]: 'jpg',
+  [ImageFormat.PNG]: 'png',
+  [ImageFormat.AVIF]: 'avif',
+};
+
+// Browsers without an encoder for a type silently hand back PNG; walk this chain instead of shipping a mislabeled file
+const ENCODER_FALLBACKS: Record<ImageFormat, ImageFormat[]> = {
+  [ImageFormat.AVIF]: [ImageFormat.AVIF, ImageFormat.WebP, ImageFormat.JPEG],
+  [ImageFormat.WebP]: [ImageFormat.WebP, ImageFormat.JPEG],
+  [ImageFormat.JPEG]: [ImageFormat.JPEG],
+  [ImageFormat.PNG]: [ImageFormat.PNG],
+};
+
+export const extensionFor = (format: ImageFormat): string => EXTENSIONS[format] || 'webp';
+
+export const getTargetDimensions = (aspectRatio: AspectRatio, imageSize: ImageSize, maxWidth?: number): ImageDimensions => {
+  const [rw, rh] = RATIOS[aspectRatio] || RATIOS[AspectRatio.Landscape];
+  const longEdge = LONG_EDGE[imageSize] || LONG_EDGE[ImageSize.K1];
+  let width = rw >= rh ? longEdge : Math.round((longEdge * rw) / rh);
+  let height = rw >= rh ? Math.round((longEdge * rh) / rw) : longEdge;
+  if (maxWidth && maxWidth > 0 && width > maxWidth) {
+    height = Math.round((height * maxWidth) / width);
+    width = maxWidth;
+  }
+  return { width, height };
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> =>
+  new Promise(resolve => canvas.toBlob(resolve, type, quality));
+
+// First format in the fallback chain the browser actually encodes; quality is the 0-100 slider value
+const encodeCanvas = async (canvas: HTMLCanvasElement, format: ImageFormat, quality: number): Promise<{ blob: Blob; mimeType: ImageFormat }> => {
+  const encoderQuality = Math.min(1, Math.max(0.1, quality / 100));
+  for (const candidate of ENCODER_FALLBACKS[format] || [format]) {
+    const blob = await canvasToBlob(canvas, candidate, encoderQuality);
+    if (blob && blob.type === candidate) return { blob, mimeType: candidate };
+  }
+  throw new ValidationError(`This browser cannot encode ${format}`, 'format');
+};
+
+export const loadImageBitmap = async (dataUrl: string): Promise<{ blob: Blob; bitmap: ImageBitmap }> => {
+  const blob = await (await fetch(dataUrl)).blob();
+  try {
+    return { blob, bitmap: await createImageBitmap(blob) };
+  } catch {
+    throw new ValidationError(`Generated image could not be decoded (${blob.type || 'unknown type'})`, 'image');
+  }
+};
+
+// Scales to cover the target box and center-crops the overflow, so every output has the exact dimensions
+const drawCover = (bitmap: ImageBitmap, target: ImageDimensions, format: ImageFormat): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = target.width;
+  canvas.height = target.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  // JPEG has no alpha; flatten onto white rather than the default black
+  if (format === ImageFormat.JPEG) {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+
+  const scale = Math.max(target.width / bitmap.width, target.height / bitmap.height);
+  const sw = target.width / scale;
+  const sh = target.height / scale;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, (bitmap.width - sw) / 2, (bitmap.height - sh) / 2, sw, sh, 0, 0, target.width, target.height);
+  return canvas;
+};
+
+export interface ProcessOptions {
+  watermark?: boolean; // Apply the configured logo overlay; callers pass false for posts that opted out
+}
+
+// Resizes to AspectRatio × ImageSize (capped at maxUploadWidth), stamps the watermark if asked, and re-encodes
+// to the configured format. quality is the 0-100 slider value and is ignored for PNG.
+export const processGeneratedImage = async (dataUrl: string, settings: ImageSettings, options: ProcessOptions = {}): Promise<ProcessedImage> => {
+  const { format, quality } = settings;
+  const { blob: source, bitmap } = await loadImageBitmap(dataUrl);
+  const target = getTargetDimensions(settings.aspectRatio, settings.imageSize, settings.maxUploadWidth);
+  const unchangedSize = bitmap.width === target.width && bitmap.height === target.height;
+  const canvas = drawCover(bitmap, target, format);
+  bitmap.close();
+
+  const watermarked = !!options.watermark && shouldWatermark(settings);
+  if (watermarked) {
+    const logo = await loadWatermarkLogo(settings.watermark!.logoDataUrl);
+    const placement = getWatermarkPlacement(settings.watermark!, settings.aspectRatio);
+    drawWatermark(canvas.getContext('2d')!, logo, target.width, target.height, placement, settings.watermark!.opacity);
+    logo.close();
+  }
+
+  const { blob: encoded, mimeType } = await encodeCanvas(canvas, format, quality);
+
+  // Re-encoding an already-compact file in the same format and size can grow it; keep the original then
+  const keepSource = !watermarked && unchangedSize && source.type === mimeType && source.size <= encoded.size;
+  const output = keepSource ? source : encoded;
+  const outputDataUrl = keepSource ? dataUrl : await blobToDataUrl(encoded);
+  return {
+    dataUrl: outputDataUrl,
+    mimeType,
+    extension: extensionFor(mimeType),
+    originalBytes: source.size,
+    bytes: output.size,
+    width: target.width,
+    height: target.height,
+    watermarked,
+    ...(watermarked ? { unstampedDataUrl: dataUrl } : {}),
+  };
+};
+
+// ============ VARIANT SCORING ============
+
+const SCORE_SAMPLE_WIDTH = 128;
+
+// Cheap no-model quality proxy for auto-picking variants: sharpness (Laplacian energy), contrast and exposure, 0-100
+export const scoreImage = async (dataUrl: string): Promise<number> => {
+  const { bitmap } = await loadImageBitmap(dataUrl);
+  const width = SCORE_SAMPLE_WIDTH;
+  const height = Math.max(1, Math.round((bitmap.height / bitmap.width) * width));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const luma = new Float32Array(width * height);
+  let sum = 0;
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = (0.2126 * data[i * 4] + 0.7152 * data[i * 4 + 1] + 0.0722 * data[i * 4 + 2]) / 255;
+    sum += luma[i];
+  }
+  const mean = sum / luma.length;
+
+  let variance = 0;
+  let edgeEnergy = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      variance += (luma[i] - mean) ** 2;
+      edgeEnergy += Math.abs(4 * luma[i] - luma[i - 1] - luma[i + 1] - luma[i - width] - luma[i + width]);
+    }
+  }
+  const interior = Math.max(1, (width - 2) * (height - 2));
+  const sharpness = Math.min(1, edgeEnergy / interior / 0.1);
+  const contrast = Math.min(1, Math.sqrt(variance / interior) / 0.25);
+  const exposure = 1 - Math.min(1, Math.abs(mean - 0.5) / 0.5);
+
+  return Math.round(100 * (0.4 * sharpness + 0.3 * contrast + 0.3 * exposure));
+};
+
+// ============ SOCIAL VARIANTS ============
+
+export const SOCIAL_FORMATS: Record<SocialPlatform, ImageDimensions & { label: string }> = {
+  og: { width: 1200, height: 630, label: 'Open Graph' },
+  twitter: { width: 1200, height: 675, label: 'Twitter' },
+  pinterest: { width: 1000, height: 1500, label: 'Pinterest' },
+};
+
+export interface SocialImageVariant extends ProcessedImage {
+  platform: SocialPlatform;
+}
+
+const SALIENCY_SAMPLE_WIDTH = 96;
+
+// Per-column and per-row saliency sums (edge strength plus colourfulness) on a downsampled copy
+const measureSaliency = (bitmap: ImageBitmap): { columns: Float32Array; rows: Float32Array } => {
+  const width = SALIENCY_SAMPLE_WIDTH;
+  const height = Math.max(1, Math.round((bitmap.height / bitmap.width) * width));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const luma = (i: number) => 0.2126 * data[i * 4] + 0.7152 * data[i * 4 + 1] + 0.0722 * data[i * 4 + 2];
+  const columns = new Float32Array(width);
+  const rows = new Float32Array(height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const r = data[i * 4], g = data[i * 4 + 1], b = data[i * 4 + 2];
+      const edge = x > 0 && y > 0 ? Math.abs(luma(i) - luma(i - 1)) + Math.abs(luma(i) - luma(i - width)) : 0;
+      const saturation = Math.max(r, g, b) - Math.min(r, g, b);
+      const value = edge + 0.5 * saturation;
+      columns[x] += value;
+      rows[y] += value;
+    }
+  }
+  return { columns, rows };
+};
+
+// Offset (in sample units) of the window of the given length with the highest saliency sum
+const bestWindowStart = (profile: Float32Array, length: number): number => {
+  const size = Math.min(profile.length, Math.max(1, Math.round(length)));
+  let sum = 0;
+  for (let i = 0; i < size; i++) sum += profile[i];
+  let best = sum;
+  let bestStart = 0;
+  for (let start = 1; start + size <= profile.length; start++) {
+    sum += profile[start + size - 1] - profile[start - 1];
+    if (sum > best) {
+      best = sum;
+      bestStart = start;
+    }
+  }
+  return bestStart;
+};
+
+// Largest crop of the target aspect that fits the source, slid along the free axis onto the busiest region
+const smartCropBox = (bitmap: ImageBitmap, target: ImageDimensions) => {
+  const targetRatio = target.width / target.height;
+  const cropWidth = Math.min(bitmap.width, bitmap.height * targetRatio);
+  const cropHeight = cropWidth / targetRatio;
+  const { columns, rows } = measureSaliency(bitmap);
+  const scale = bitmap.width / columns.length;
+
+  const sx = cropWidth < bitmap.width ? bestWindowStart(columns, cropWidth / scale) * scale : 0;
+  const sy = cropHeight < bitmap.height ? bestWindowStart(rows, cropHeight / scale) * scale : 0;
+  return {
+    sx: Math.min(sx, bitmap.width - cropWidth),
+    sy: Math.min(sy, bitmap.height - cropHeight),
+    sw: cropWidth,
+    sh: cropHeight,
+  };
+};
+
+// Watermark placements are configured per AspectRatio; a crop takes the one whose ratio is closest to its own
+const nearestAspectRatio = (width: number, height: number): AspectRatio =>
+  (Object.entries(RATIOS) as [AspectRatio, [number, number]][])
+    .reduce((best, [ratio, [rw, rh]]) => {
+      const distance = Math.abs(Math.log(width / height) - Math.log(rw / rh));
+      return distance < best.distance ? { ratio, distance } : best;
+    }, { ratio: AspectRatio.Landscape, distance: Infinity }).ratio;
+
+// Derives every social format from one image, encoded in the configured format so uploads match the featured image.
+// Pass the un-stamped source: a crop could clip a logo already on it, so each crop gets its own stamp at its own size.
+export const createSocialVariants = async (dataUrl: string, settings: ImageSettings, options: ProcessOptions = {}): Promise<SocialImageVariant[]> => {
+  const { blob: source, bitmap } = await loadImageBitmap(dataUrl);
+  const logo = options.watermark && shouldWatermark(settings) ? await loadWatermarkLogo(settings.watermark!.logoDataUrl) : null;
+  try {
+    const variants: SocialImageVariant[] = [];
+    for (const [platform, target] of Object.entries(SOCIAL_FORMATS) as [SocialPlatform, ImageDimensions][]) {
+      const { sx, sy, sw, sh } = smartCropBox(bitmap, target);
+      const canvas = document.createElement('canvas');
+      canvas.width = target.width;
+      canvas.height = target.height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Canvas 2D context unavailable');
+      if (settings.format === ImageFormat.JPEG) {
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, target.width, target.height);
+      }
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(bitmap, sx, sy, sw, sh, 0, 0, target.width, target.height);
+      if (logo) {
+        const placement = getWatermarkPlacement(settings.watermark!, nearestAspectRatio(target.width, target.height));
+        drawWatermark(ctx, logo, target.width, target.height, placement, settings.watermark!.opacity);
+      }
+
+      const { blob, mimeType } = await encodeCanvas(canvas, settings.format, settings.quality);
+      variants.push({
+        platform,
+        dataUrl: await blobToDataUrl(blob),
+        mimeType,
+        extension: extensionFor(mimeType),
+        originalBytes: source.size,
+        bytes: blob.size,
+        width: target.width,
+        height: target.height,
+        watermarked: !!logo,
+      });
+    }
+    return variants;
+  } finally {
+    bitmap.close();
+    logo?.close();
+  }
+};
+
+// ============ PLACEHOLDERS ============
+
+const PLACEHOLDER_SAMPLE_WIDTH = 32;
+const LQIP_WIDTH = 16;
+const BLURHASH_COMPONENTS_X = 4;
+const BLURHASH_COMPONENTS_Y = 3;
+const BASE83 = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~';
+
+const encode83 = (value: number, length: number): string => {
+  let result = '';
+  for (let i = 1; i <= length; i++) result += BASE83[Math.floor(value / 83 ** (length - i)) % 83];
+  return result;
+};
+
+const srgbToLinear = (value: number): number => {
+  const c = value / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+};
+
+// Truncates after +0.5 like the reference encoder; rounding as well would push 1.0 to 256 and corrupt the DC pack
+const linearToSrgb = (value: number): number => {
+  const c = Math.max(0, Math.min(1, value));
+  return c <= 0.0031308 ? Math.trunc(c * 12.92 * 255 + 0.5) : Math.trunc((1.055 * c ** (1 / 2.4) - 0.055) * 255 + 0.5);
+};
+
+const signPow = (value: number, exp: number): number => Math.sign(value) * Math.abs(value) ** exp;
+
+// Reference BlurHash encoder (woltapp/blurhash) over RGBA pixels
+export const encodeBlurHash = (data: Uint8ClampedArray, width: number, height: number): string => {
+  const factors: [number, number, number][] = [];
+  for (let y = 0; y < BLURHASH_COMPONENTS_Y; y++) {
+    for (let x = 0; x < BLURHASH_COMPONENTS_X; x++) {
+      const normalisation = x === 0 && y === 0 ? 1 : 2;
+      let r = 0, g = 0, b = 0;
+      for (let j = 0; j < height; j++) {
+        for (let i = 0; i < width; i++) {
+          const basis = normalisation * Math.cos((Math.PI * x * i) / width) * Math.cos((Math.PI * y * j) / height);
+          const p = (j * width + i) * 4;
+          r += basis * srgbToLinear(data[p]);
+          g += basis * srgbToLinear(data[p + 1]);
+          b += basis * srgbToLinear(data[p + 2]);
+        }
+      }
+      const scale = 1 / (width * height);
+      factors.push([r * scale, g * scale, b * scale]);
+    }
+  }
+
+  const [dc, ...ac] = factors;
+  let hash = encode83(BLURHASH_COMPONENTS_X - 1 + (BLURHASH_COMPONENTS_Y - 1) * 9, 1);
+  const actualMax = Math.max(...ac.flat().map(Math.abs));
+  const quantisedMax = Math.floor(Math.max(0, Math.min(82, Math.floor(actualMax * 166 - 0.5))));
+  const maximumValue = (quantisedMax + 1) / 166;
+  hash += encode83(quantisedMax, 1);
+  hash += encode83((linearToSrgb(dc[0]) << 16) + (linearToSrgb(dc[1]) << 8) + linearToSrgb(dc[2]), 4);
+  for (const [r, g, b] of ac) {
+    const quant = (v: number) => Math.floor(Math.max(0, Math.min(18, Math.floor(signPow(v / maximumValue, 0.5) * 9 + 9.5))));
+    hash += encode83(quant(r) * 19 * 19 + quant(g) * 19 + quant(b), 2);
+  }
+  return hash;
+};
+
+// Most populated 4-bit-per-channel bucket, averaged; a plain mean turns two strong colours into mud
+const findDominantColor = (data: Uint8ClampedArray): string => {
+  const buckets = new Map<number, { count: number; r: number; g: number; b: number }>();
+  for (let p = 0; p < data.length; p += 4) {
+    if (data[p + 3] < 128) continue;
+    const key = ((data[p] >> 4) << 8) | ((data[p + 1] >> 4) << 4) | (data[p + 2] >> 4);
+    const bucket = buckets.get(key) || { count: 0, r: 0, g: 0, b: 0 };
+    bucket.count++;
+    bucket.r += data[p];
+    bucket.g += data[p + 1];
+    bucket.b += data[p + 2];
+    buckets.set(key, bucket);
+  }
+  let top: { count: number; r: number; g: number; b: number } | null = null;
+  for (const bucket of buckets.values()) if (!top || bucket.count > top.count) top = bucket;
+  if (!top) return '#808080';
+  const { count } = top;
+  const hex = (v: number) => Math.round(v / count).toString(16).padStart(2, '0');
+  return `#${hex(top.r)}${hex(top.g)}${hex(top.b)}`;
+};
+
+const drawSample = (bitmap: ImageBitmap, width: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = Math.max(1, Math.round((bitmap.height / bitmap.width) * width));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+// BlurHash, a ~1 KB JPEG LQIP and the dominant colour, all from small downsampled copies
+export const computePlaceholder = async (dataUrl: string): Promise<ImagePlaceholder> => {
+  const { bitmap } = await loadImageBitmap(dataUrl);
+  try {
+    const sample = drawSample(bitmap, PLACEHOLDER_SAMPLE_WIDTH);
+    const { data } = sample.getContext('2d')!.getImageData(0, 0, sample.width, sample.height);
+    return {
+      blurHash: encodeBlurHash(data, sample.width, sample.height),
+      lqip: drawSample(bitmap, LQIP_WIDTH).toDataURL('image/jpeg', 0.6),
+      dominantColor: findDominantColor(data),
+    };
+  } finally {
+    bitmap.close();
+  }
+};
+
+export const describeTranscode = (result: ProcessedImage): string =>
+  `${result.width}×${result.height}, ${formatBytes(result.originalBytes)} → ${formatBytes(result.bytes)} ${result.extension.toUpperCase()}`;
+
+export default {
+  processGeneratedImage,
+  getTargetDimensions,
+  scoreImage,
+  createSocialVariants,
+  computePlaceholder,
+  describeTranscode,
+  extensionFor,
+  formatBytes,
+};
@@ -0,0 +1,73 @@
+// services/journalService.ts - Operations journal: the state every post and media write replaced, kept for rollback
+
+import { OperationEntry } from '../types';
+import { OPERATIONS_STORE, runRequest } from './localDb';
+import { normalizeSiteUrl } from './postStore';
+
+// Past this many, entries that WordPress also has as a revision drop their own copy of the content
+const MAX_CONTENT_SNAPSHOTS = 100;
+// Oldest entries beyond this are dropped entirely
+const MAX_ENTRIES_PER_SITE = 500;
+
+export const createOperationId = (): string => `op-${crypto.randomUUID()}`;
+
+export const createBatchId = (): string => `batch-${crypto.randomUUID()}`;
+
+// Newest first; like the post store, an unavailable database reads as empty instead of surfacing
+export const listOperations = async (siteUrl: string): Promise<OperationEntry[]> => {
+  try {
+    const entries = await runRequest<OperationEntry[]>(OPERATIONS_STORE, 'readonly', store => store.index('siteUrl').getAll(normalizeSiteUrl(siteUrl)));
+    return entries.sort((a, b) => b.createdAt - a.createdAt);
+  } catch (error) {
+    console.warn('Operations journal unavailable:', error);
+    return [];
+  }
+};
+
+export const listPostOperations = async (siteUrl: string, postId: number, restBase: string): Promise<OperationEntry[]> =>
+  (await listOperations(siteUrl)).filter(e => e.postId === postId && e.restBase === restBase);
+
+export const listBatchOperations = async (siteUrl: string, batchId: string): Promise<OperationEntry[]> =>
+  (await listOperations(siteUrl)).filter(e => e.batchId === batchId);
+
+// A journal failure never blocks the write it describes; it only costs that write its rollback
+export const saveOperation = async (entry: OperationEntry): Promise<void> => {
+  try {
+    await runRequest(OPERATIONS_STORE, 'readwrite', store => store.put(entry));
+  } catch (error) {
+    console.warn(`Could not journal ${entry.kind} on post ${entry.postId}:`, error);
+  }
+};
+
+export const updateOperation = async (entry: OperationEntry, updates: Partial<OperationEntry>): Promise<OperationEntry> => {
+  const next = { ...entry, ...updates };
+  await saveOperation(next);
+  return next;
+};
+
+export const pruneOperations = async (siteUrl: string): Promise<void> => {
+  const entries = await listOperations(siteUrl);
+  try {
+    for (const entry of entries.slice(MAX_ENTRIES_PER_SITE)) {
+      await runRequest(OPERATIONS_STORE, 'readwrite', store => store.delete(entry.id));
+    }
+    for (const entry of entries.slice(MAX_CONTENT_SNAPSHOTS, MAX_ENTRIES_PER_SITE)) {
+      if (entry.revisionId === undefined || entry.before.content === undefined) continue;
+      const { content, ...before } = entry.before;
+      await runRequest(OPERATIONS_STORE, 'readwrite', store => store.put({ ...entry, before }));
+    }
+  } catch (error) {
+    console.warn('Could not prune the operations journal:', error);
+  }
+};
+
+export default {
+  createOperationId,
+  createBatchId,
+  listOperations,
+  listPostOperations,
+  listBatchOperations,
+  saveOperation,
+  updateOperation,
+  pruneOperations,
+};
@@ -0,0 +1,48 @@
+// services/localDb.ts - Shared IndexedDB connection for the post store and the operations journal
+
+const DB_NAME = 'ai-image-engine';
+const DB_VERSION = 2;
+
+export const SITES_STORE = 'sites';
+export const OPERATIONS_STORE = 'operations';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SITES_STORE)) {
+          db.createObjectStore(SITES_STORE, { keyPath: 'siteUrl' });
+        }
+        if (!db.objectStoreNames.contains(OPERATIONS_STORE)) {
+          db.createObjectStore(OPERATIONS_STORE, { keyPath: 'id' }).createIndex('siteUrl', 'siteUrl');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // A failed open (private mode, blocked storage) is retried on the next call rather than cached
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export default {
+  runRequest,
+};
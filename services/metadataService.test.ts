@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { AIProvider, ImageProvenance } from '../types';
+import { buildManifestSidecar, buildXmpPacket, DEFAULT_METADATA_SETTINGS, ImageMetadata, TRAINED_ALGORITHMIC_MEDIA } from './metadataService';
+
+const provenance = (provider: string, model?: string): ImageProvenance => ({
+  provider,
+  ...(model ? { model } : {}),
+  prompt: 'A lighthouse at dusk',
+  settingsHash: '00000000',
+  createdAt: '2026-01-01T00:00:00.000Z',
+});
+
+const meta = (source: ImageProvenance): ImageMetadata => ({
+  title: 'Lighthouse',
+  altText: 'A lighthouse',
+  caption: '',
+  settings: DEFAULT_METADATA_SETTINGS,
+  provenance: source,
+});
+
+const actionOf = async (source: ImageProvenance) =>
+  JSON.parse(await buildManifestSidecar(new Blob(['x'], { type: 'image/png' }), 'a.png', meta(source))).assertions[0].data.actions[0];
+
+describe('AI disclosure', () => {
+  it('labels generated images as trained algorithmic media', async () => {
+    const xmp = buildXmpPacket(meta(provenance(AIProvider.Stability, 'core')));
+    expect(xmp).toContain(`Iptc4xmpExt:DigitalSourceType="${TRAINED_ALGORITHMIC_MEDIA}"`);
+    expect(xmp).toContain('Iptc4xmpExt:AISystemUsed="Stability AI (core)"');
+    expect((await actionOf(provenance(AIProvider.Stability, 'core'))).digitalSourceType).toBe(TRAINED_ALGORITHMIC_MEDIA);
+  });
+
+  it('leaves locally typeset title cards unlabelled', async () => {
+    const xmp = buildXmpPacket(meta(provenance(AIProvider.TitleCard)));
+    expect(xmp).not.toContain('DigitalSourceType');
+    expect(xmp).not.toContain('AISystemUsed');
+    expect(xmp).not.toContain('AIPromptInformation');
+    expect(await actionOf(provenance(AIProvider.TitleCard))).not.toHaveProperty('digitalSourceType');
+  });
+});
@@ -0,0 +1,236 @@
+// services/metadataService.ts - Embedded XMP (IPTC) metadata and C2PA-style sidecars for uploaded images
+
+import { AIProvider, ImageProvenance, MetadataSettings } from '../types';
+
+export const DEFAULT_METADATA_SETTINGS: MetadataSettings = {
+  embed: true,
+  creator: '',
+  copyright: '',
+  aiDisclosure: true,
+  c2paSidecar: false,
+};
+
+// IPTC NewsCodes value that labels content produced by a generative model
+export const TRAINED_ALGORITHMIC_MEDIA = 'http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia';
+const CLAIM_GENERATOR = 'AI Image Engine for WordPress';
+const XMP_JPEG_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const XMP_PNG_KEYWORD = 'XML:com.adobe.xmp';
+
+export interface ImageMetadata {
+  title: string;
+  altText: string;
+  caption: string;
+  settings: MetadataSettings;
+  provenance?: ImageProvenance;
+}
+
+// Title cards are typeset locally rather than generated, so they never get the AI labels
+const disclosesAi = ({ settings, provenance }: ImageMetadata): boolean =>
+  !!settings.aiDisclosure && provenance?.provider !== AIProvider.TitleCard;
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const langAlt = (tag: string, value: string): string =>
+  value ? `<${tag}><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(value)}</rdf:li></rdf:Alt></${tag}>` : '';
+
+// IPTC Photo Metadata expressed in XMP, so one packet covers every container we write
+export const buildXmpPacket = (meta: ImageMetadata): string => {
+  const { settings, provenance } = meta;
+  const disclose = disclosesAi(meta);
+  const attributes = [
+    disclose ? `Iptc4xmpExt:DigitalSourceType="${TRAINED_ALGORITHMIC_MEDIA}"` : '',
+    disclose && provenance ? `Iptc4xmpExt:AISystemUsed="${escapeXml(provenance.model ? `${provenance.provider} (${provenance.model})` : provenance.provider)}"` : '',
+    disclose && provenance ? `Iptc4xmpExt:AIPromptInformation="${escapeXml(provenance.prompt)}"` : '',
+    settings.creator ? `photoshop:Credit="${escapeXml(settings.creator)}"` : '',
+    settings.copyright ? 'xmpRights:Marked="True"' : '',
+  ].filter(Boolean);
+
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '<rdf:Description rdf:about=""',
+    ' xmlns:dc="http://purl.org/dc/elements/1.1/"',
+    ' xmlns:photoshop="http://ns.adobe.com/photoshop/1.0/"',
+    ' xmlns:xmpRights="http://ns.adobe.com/xap/1.0/rights/"',
+    ' xmlns:Iptc4xmpCore="http://iptc.org/std/Iptc4xmpCore/1.0/xmlns/"',
+    ' xmlns:Iptc4xmpExt="http://iptc.org/std/Iptc4xmpExt/2008-02-29/"',
+    ...attributes.map(a => ` ${a}`),
+    '>',
+    langAlt('dc:title', meta.title),
+    langAlt('dc:description', meta.caption),
+    langAlt('Iptc4xmpCore:AltTextAccessibility', meta.altText),
+    settings.creator ? `<dc:creator><rdf:Seq><rdf:li>${escapeXml(settings.creator)}</rdf:li></rdf:Seq></dc:creator>` : '',
+    langAlt('dc:rights', settings.copyright),
+    '</rdf:Description>',
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+  ].filter(Boolean).join('\n');
+};
+
+// ============ CONTAINERS ============
+
+const encoder = new TextEncoder();
+
+const concat = (...parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const ascii = (bytes: Uint8Array, start: number, length: number): string =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+// JPEG: APP1 segment right after SOI (and JFIF APP0, which must stay first)
+const embedJpeg = (bytes: Uint8Array, xmp: string): Uint8Array => {
+  const payload = concat(encoder.encode(XMP_JPEG_HEADER), encoder.encode(xmp));
+  if (payload.length + 2 > 0xffff) return bytes;
+  const segment = concat(new Uint8Array([0xff, 0xe1, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]), payload);
+
+  let insertAt = 2;
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) insertAt = 4 + ((bytes[4] << 8) | bytes[5]);
+  return concat(bytes.subarray(0, insertAt), segment, bytes.subarray(insertAt));
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// PNG: uncompressed iTXt chunk directly after IHDR, where XMP readers look first
+const embedPng = (bytes: Uint8Array, xmp: string): Uint8Array => {
+  const data = concat(encoder.encode(`${XMP_PNG_KEYWORD}\0\0\0\0\0`), encoder.encode(xmp));
+  const typeAndData = concat(encoder.encode('iTXt'), data);
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(typeAndData, 4);
+  view.setUint32(8 + data.length, crc32(typeAndData));
+
+  const ihdrEnd = 8 + 12 + new DataView(bytes.buffer, bytes.byteOffset).getUint32(8);
+  return concat(bytes.subarray(0, ihdrEnd), chunk, bytes.subarray(ihdrEnd));
+};
+
+const webpChunk = (fourCC: string, data: Uint8Array): Uint8Array => {
+  const header = new Uint8Array(8);
+  header.set(encoder.encode(fourCC), 0);
+  new DataView(header.buffer).setUint32(4, data.length, true);
+  return concat(header, data, data.length % 2 ? new Uint8Array(1) : new Uint8Array(0));
+};
+
+// Canvas size and alpha of a simple (VP8/VP8L) WebP, needed to synthesise the VP8X header
+const readWebpCanvas = (bytes: Uint8Array): { width: number; height: number; alpha: boolean } | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  const fourCC = ascii(bytes, 12, 4);
+  if (fourCC === 'VP8 ') {
+    return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff, alpha: false };
+  }
+  if (fourCC === 'VP8L') {
+    const bits = view.getUint32(21, true);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1, alpha: !!((bits >>> 28) & 1) };
+  }
+  return null;
+};
+
+// WebP: XMP needs the extended (VP8X) layout with the XMP flag set, and the "XMP " chunk last
+const embedWebp = (bytes: Uint8Array, xmp: string): Uint8Array => {
+  let body: Uint8Array;
+  if (ascii(bytes, 12, 4) === 'VP8X') {
+    body = bytes.slice(12);
+    body[8] |= 0x04;
+  } else {
+    const canvas = readWebpCanvas(bytes);
+    if (!canvas) return bytes;
+    const vp8x = new Uint8Array(10);
+    vp8x[0] = 0x04 | (canvas.alpha ? 0x10 : 0);
+    const w = canvas.width - 1;
+    const h = canvas.height - 1;
+    vp8x.set([w & 0xff, (w >> 8) & 0xff, (w >> 16) & 0xff, h & 0xff, (h >> 8) & 0xff, (h >> 16) & 0xff], 4);
+    body = concat(webpChunk('VP8X', vp8x), bytes.subarray(12));
+  }
+
+  const riffBody = concat(encoder.encode('WEBP'), body, webpChunk('XMP ', encoder.encode(xmp)));
+  const header = new Uint8Array(8);
+  header.set(encoder.encode('RIFF'), 0);
+  new DataView(header.buffer).setUint32(4, riffBody.length, true);
+  return concat(header, riffBody);
+};
+
+// Formats without a writer here (AVIF, GIF) are returned untouched rather than risking a corrupt file
+export const embedMetadata = async (blob: Blob, meta: ImageMetadata): Promise<Blob> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const xmp = buildXmpPacket(meta);
+  let output = bytes;
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) output = embedJpeg(bytes, xmp);
+  else if (ascii(bytes, 1, 3) === 'PNG') output = embedPng(bytes, xmp);
+  else if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') output = embedWebp(bytes, xmp);
+  return output === bytes ? blob : new Blob([output], { type: blob.type });
+};
+
+// ============ SIDECAR ============
+
+const sha256Base64 = async (blob: Blob): Promise<string> => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', await blob.arrayBuffer()));
+  return btoa(String.fromCharCode(...digest));
+};
+
+// Mirrors a C2PA manifest's assertions as plain JSON; it is unsigned, so it documents rather than proves provenance
+export const buildManifestSidecar = async (blob: Blob, fileName: string, meta: ImageMetadata): Promise<string> => {
+  const { settings, provenance } = meta;
+  const manifest = {
+    claim_generator: CLAIM_GENERATOR,
+    title: fileName,
+    format: blob.type,
+    instance_id: `xmp:iid:${crypto.randomUUID()}`,
+    signature: null,
+    assertions: [
+      {
+        label: 'c2pa.actions',
+        data: {
+          actions: [{
+            action: 'c2pa.created',
+            ...(disclosesAi(meta) ? { digitalSourceType: TRAINED_ALGORITHMIC_MEDIA } : {}),
+            ...(provenance ? { softwareAgent: provenance.model ? `${provenance.provider} (${provenance.model})` : provenance.provider, when: provenance.createdAt } : {}),
+          }],
+        },
+      },
+      {
+        label: 'stds.schema-org.CreativeWork',
+        data: {
+          '@context': 'https://schema.org',
+          '@type': 'CreativeWork',
+          name: meta.title,
+          description: meta.caption,
+          ...(settings.creator ? { author: [{ '@type': 'Person', name: settings.creator }] } : {}),
+          ...(settings.copyright ? { copyrightNotice: settings.copyright } : {}),
+        },
+      },
+      ...(provenance ? [{ label: 'ai-image-engine.provenance', data: provenance }] : []),
+      { label: 'c2pa.hash.data', data: { alg: 'sha256', hash: await sha256Base64(blob) } },
+    ],
+  };
+  return JSON.stringify(manifest, null, 2);
+};
+
+export default {
+  buildXmpPacket,
+  embedMetadata,
+  buildManifestSidecar,
+};
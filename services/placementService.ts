@@ -0,0 +1,263 @@
+// services/placementService.ts - Local structural pass that finds where in-content images belong
+
+import { InsertionPoint } from '../types';
+import { Block, BlockPath, formatBlockPath, insertBlockAfter, parseBlockPath, parseContent, serializeBlock, serializeContent } from './blockService';
+
+// Words of running text a reader should not have to scroll through without a visual
+export const IMAGE_GAP_WORDS = 300;
+// A section counts as list-heavy when lists carry at least this share of its words
+const LIST_HEAVY_RATIO = 0.5;
+// Recommended spots closer than this many paragraphs crowd each other
+const MIN_RECOMMENDED_SPACING = 3;
+const CONTEXT_LENGTH = 150;
+
+type BlockTag = 'p' | 'h2' | 'h3' | 'ul' | 'ol' | 'blockquote' | 'image' | 'other';
+
+export interface ContentBlock {
+  tag: BlockTag;
+  text: string;
+  words: number;
+  paragraphIndex: number; // Index of the last <p> closed by the end of this block, -1 before the first
+  path: BlockPath; // Where the block sits in content.raw; insertions are anchored to it
+}
+
+interface Candidate {
+  point: InsertionPoint;
+  score: number;
+}
+
+export interface PlacementPlan {
+  insertionPoints: InsertionPoint[];
+  imageGaps: number[];
+  paragraphCount: number;
+}
+
+const countWords = (text: string): number => (text.match(/\S+/g) || []).length;
+
+const toContext = (text: string): string =>
+  text.length > CONTEXT_LENGTH ? `${text.slice(0, CONTEXT_LENGTH)}...` : text;
+
+const classifyBlock = (el: Element): BlockTag => {
+  const tag = el.tagName.toLowerCase();
+  if (tag === 'figure' || tag === 'img' || el.querySelector('img, video, iframe')) return 'image';
+  if (tag === 'h2' || tag === 'h3' || tag === 'p' || tag === 'ul' || tag === 'ol' || tag === 'blockquote') return tag;
+  if (tag === 'h1') return 'h2';
+  return 'other';
+};
+
+const MEDIA_BLOCKS = new Set(['core/image', 'core/gallery', 'core/video', 'core/embed', 'core/cover', 'core/media-text']);
+const BLOCK_LEVEL = /^(P|H[1-6]|UL|OL|BLOCKQUOTE|DIV|SECTION|TABLE|PRE|FIGURE|HR|DL)$/;
+
+// The editor's own block type is the best signal; freeform HTML falls back to its markup
+const classifyContentBlock = (block: Block, doc: Document): BlockTag => {
+  switch (block.blockName) {
+    case 'core/paragraph': return 'p';
+    case 'core/heading': return Number(block.attrs.level ?? 2) >= 3 ? 'h3' : 'h2';
+    case 'core/list': return block.attrs.ordered ? 'ol' : 'ul';
+    case 'core/quote':
+    case 'core/pullquote': return 'blockquote';
+  }
+  if (block.blockName && MEDIA_BLOCKS.has(block.blockName)) return 'image';
+
+  const elements = Array.from(doc.body.children);
+  if (elements.length === 1 && BLOCK_LEVEL.test(elements[0].tagName)) return classifyBlock(elements[0]);
+  if (doc.body.querySelector('img, video, iframe')) return 'image';
+  // Classic text with only inline markup is a paragraph once wpautop has run
+  return elements.some(el => BLOCK_LEVEL.test(el.tagName)) ? 'other' : 'p';
+};
+
+// Top-level blocks of content.raw (rendered HTML when raw is missing); paragraphIndex counts every <p> in document order
+export const parseContentBlocks = (content: string): ContentBlock[] => {
+  let paragraphs = 0;
+  let index = 0;
+
+  return parseContent(content).blocks.flatMap(block => {
+    const html = serializeBlock(block);
+    if (block.blockName === null && html.trim() === '') return [];
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const tag = classifyContentBlock(block, doc);
+    const nestedParagraphs = doc.querySelectorAll('p').length;
+    paragraphs += tag === 'p' ? Math.max(1, nestedParagraphs) : nestedParagraphs;
+    const text = (doc.body.textContent || '').replace(/\s+/g, ' ').trim();
+    return [{ tag, text, words: countWords(text), paragraphIndex: paragraphs - 1, path: [index++] }];
+  });
+};
+
+// Points without a block path (AI picks from older analyses) anchor to the paragraph block their index names
+export const resolveInsertionPath = (content: string, point: InsertionPoint): BlockPath | null => {
+  const stored = point.blockPath ? parseBlockPath(point.blockPath) : null;
+  if (stored) return stored;
+  const anchor = parseContentBlocks(content).find(b => b.tag === 'p' && b.paragraphIndex === point.paragraphIndex);
+  return anchor ? anchor.path : null;
+};
+
+// Only a top-level paragraph can anchor an insertion: anything else would land the image inside a list or quote
+const isAnchor = (block: ContentBlock): boolean => block.tag === 'p' && block.words > 0;
+
+const pushCandidate = (candidates: Map<number, Candidate>, block: ContentBlock, position: number, score: number, reason: string) => {
+  const existing = candidates.get(block.paragraphIndex);
+  if (existing) {
+    existing.score += score;
+    existing.point.reason = `${existing.point.reason}; ${reason}`;
+    return;
+  }
+  candidates.set(block.paragraphIndex, {
+    score,
+    point: {
+      paragraphIndex: block.paragraphIndex,
+      blockPath: formatBlockPath(block.path),
+      afterElement: 'p',
+      position,
+      context: toContext(block.text),
+      recommended: false,
+      reason,
+    },
+  });
+};
+
+// Section boundaries: the first paragraph under each heading introduces the section visually
+const findSectionOpeners = (blocks: ContentBlock[], candidates: Map<number, Candidate>) => {
+  blocks.forEach((block, i) => {
+    if (block.tag !== 'h2' && block.tag !== 'h3') return;
+    for (let j = i + 1; j < blocks.length; j++) {
+      const next = blocks[j];
+      if (next.tag === 'h2' || next.tag === 'h3' || next.tag === 'image') return;
+      if (isAnchor(next)) {
+        pushCandidate(candidates, next, j, block.tag === 'h2' ? 3 : 2, `Opens section "${toContext(block.text).slice(0, 60)}"`);
+        return;
+      }
+    }
+  });
+};
+
+// Long image-free stretches: split at the first paragraph past every IMAGE_GAP_WORDS; returns the split paragraphs
+const findImageGaps = (blocks: ContentBlock[], candidates: Map<number, Candidate>): number[] => {
+  const gaps: number[] = [];
+  let wordsSinceImage = 0;
+
+  blocks.forEach((block, i) => {
+    if (block.tag === 'image') {
+      wordsSinceImage = 0;
+      return;
+    }
+    wordsSinceImage += block.words;
+    if (wordsSinceImage >= IMAGE_GAP_WORDS && isAnchor(block)) {
+      gaps.push(block.paragraphIndex);
+      pushCandidate(candidates, block, i, 4, `${wordsSinceImage} words without an image`);
+      wordsSinceImage = 0;
+    }
+  });
+  return gaps;
+};
+
+// List-heavy sections read as a wall of bullets; a visual right before the first list breaks it up
+const findListHeavySections = (blocks: ContentBlock[], candidates: Map<number, Candidate>) => {
+  let start = 0;
+  for (let i = 0; i <= blocks.length; i++) {
+    const atBoundary = i === blocks.length || blocks[i].tag === 'h2' || blocks[i].tag === 'h3';
+    if (!atBoundary) continue;
+
+    const section = blocks.slice(start, i);
+    const totalWords = section.reduce((sum, b) => sum + b.words, 0);
+    const listWords = section.filter(b => b.tag === 'ul' || b.tag === 'ol').reduce((sum, b) => sum + b.words, 0);
+    const hasImage = section.some(b => b.tag === 'image');
+
+    if (!hasImage && totalWords > 0 && listWords / totalWords >= LIST_HEAVY_RATIO) {
+      const firstList = section.findIndex(b => b.tag === 'ul' || b.tag === 'ol');
+      const anchorOffset = section.slice(0, firstList).reverse().findIndex(isAnchor);
+      const anchorIndex = anchorOffset === -1 ? section.findIndex(isAnchor) : firstList - 1 - anchorOffset;
+      if (anchorIndex !== -1) {
+        pushCandidate(candidates, section[anchorIndex], start + anchorIndex, 2, 'Breaks up a list-heavy section');
+      }
+    }
+    start = i + 1;
+  }
+};
+
+// Greedy by score, skipping spots too close to one already chosen or to an existing image
+const markRecommended = (points: Candidate[], blocks: ContentBlock[], slots: number) => {
+  const imageParagraphs = blocks.filter(b => b.tag === 'image').map(b => b.paragraphIndex);
+  const taken: number[] = [...imageParagraphs];
+  let remaining = slots;
+
+  for (const candidate of [...points].sort((a, b) => b.score - a.score)) {
+    if (remaining <= 0) break;
+    const index = candidate.point.paragraphIndex;
+    if (taken.some(t => Math.abs(t - index) < MIN_RECOMMENDED_SPACING)) continue;
+    candidate.point.recommended = true;
+    taken.push(index);
+    remaining--;
+  }
+};
+
+export const buildPlacementPlan = (html: string, existingImageCount: number, wordCount?: number): PlacementPlan => {
+  const blocks = parseContentBlocks(html);
+  const candidates = new Map<number, Candidate>();
+
+  findSectionOpeners(blocks, candidates);
+  const imageGaps = findImageGaps(blocks, candidates);
+  findListHeavySections(blocks, candidates);
+
+  const totalWords = wordCount ?? blocks.reduce((sum, b) => sum + b.words, 0);
+  const slots = Math.max(0, Math.ceil(totalWords / IMAGE_GAP_WORDS) - existingImageCount);
+  const points = Array.from(candidates.values());
+  markRecommended(points, blocks, slots);
+
+  return {
+    insertionPoints: points.map(c => c.point).sort((a, b) => a.paragraphIndex - b.paragraphIndex),
+    imageGaps,
+    paragraphCount: blocks.length > 0 ? blocks[blocks.length - 1].paragraphIndex + 1 : 0,
+  };
+};
+
+// ============ PREVIEW ============
+
+export const PLACEHOLDER_ID_PREFIX = 'ai-image-placeholder-';
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Inline styles because the preview renders outside the app's stylesheet
+const buildPlaceholderFigure = (point: InsertionPoint, label: string): string =>
+  `<figure id="${PLACEHOLDER_ID_PREFIX}${point.paragraphIndex}" style="margin:1.5em 0;padding:2.5em 1em;border:2px dashed #6366f1;border-radius:12px;background:rgba(99,102,241,0.08);text-align:center;font-family:system-ui,sans-serif;color:#4f46e5">` +
+  `<strong style="display:block;font-size:0.9em;letter-spacing:0.05em;text-transform:uppercase">${escapeHtml(label)}</strong>` +
+  (point.reason ? `<span style="display:block;margin-top:0.5em;font-size:0.8em;opacity:0.8">${escapeHtml(point.reason)}</span>` : '') +
+  `</figure>`;
+
+const placeholderBlock = (html: string): Block => ({ blockName: null, attrs: {}, innerBlocks: [], innerHTML: html, innerContent: [html] });
+
+// Classic content is stored before wpautop, so bare text chunks get the paragraph they will be shown in
+const wrapClassicText = (block: Block): Block => {
+  const html = block.innerHTML;
+  return html.trim() === '' || /^\s*<(p|h[1-6]|ul|ol|blockquote|div|figure|table|pre|hr)\b/i.test(html) ? block : placeholderBlock(`<p>${html.trim()}</p>`);
+};
+
+// Mirrors updatePostContent exactly (after the anchor block, appended when it is gone) so the preview is where the image lands
+export const getContentWithImagePlaceholder = (content: string, points: InsertionPoint[]): string => {
+  const parsed = parseContent(content);
+  const sorted = [...points].sort((a, b) => a.paragraphIndex - b.paragraphIndex);
+  const figures = sorted.map((point, i) => ({
+    path: resolveInsertionPath(content, point),
+    block: placeholderBlock(buildPlaceholderFigure(point, points.length > 1 ? `New image ${i + 1}` : 'New image')),
+  }));
+
+  // Last anchor first, so earlier paths still point at the blocks they were computed against
+  let blocks = parsed.blocks;
+  const overflow: Block[] = [];
+  for (const { path, block } of [...figures].reverse()) {
+    const inserted = path ? insertBlockAfter(blocks, path, block) : null;
+    if (inserted) blocks = inserted;
+    else overflow.unshift(block);
+  }
+  if (parsed.mode === 'classic') blocks = blocks.map(b => (b.blockName === null ? wrapClassicText(b) : b));
+
+  const result = serializeContent({ ...parsed, blocks });
+  return overflow.length > 0 ? `${result}\n\n${overflow.map(b => b.innerHTML).join('\n\n')}` : result;
+};
+
+export default {
+  parseContentBlocks,
+  resolveInsertionPath,
+  buildPlacementPlan,
+  getContentWithImagePlaceholder,
+};
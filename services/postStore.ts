@@ -0,0 +1,75 @@
+// services/postStore.ts - IndexedDB copy of each site's crawled posts, so re-crawls only fetch what changed
+
+import { CrawlScope, WordPressPost } from '../types';
+import { runRequest, SITES_STORE } from './localDb';
+
+// Bumped whenever parsed posts gain fields, so older stored copies are re-crawled rather than merged
+const RECORD_VERSION = 4;
+
+export interface StoredSite {
+  siteUrl: string;
+  version: number;
+  savedAt: number;
+  postTypes: string[]; // restBase of every type the posts were crawled from
+  crawlScope: CrawlScope;
+  posts: WordPressPost[]; // As crawled and analysed, before any job touched them
+}
+
+// Order-insensitive, and an empty filter reads the same as an unset one, as it does in buildCrawlFilters
+const describeTarget = (postTypes: string[], scope: CrawlScope = {}): string =>
+  [postTypes, scope.statuses, scope.categories, scope.tags].map(values => [...(values || [])].map(String).sort().join(',')).join('|');
+
+// Scheme and host casing, trailing slashes and a stray /wp-json must not split one site into several stores
+export const normalizeSiteUrl = (url: string): string => {
+  const trimmed = url.trim().replace(/\/+$/, '').replace(/\/wp-json$/i, '');
+  try {
+    const parsed = new URL(trimmed);
+    return `${parsed.host.toLowerCase()}${parsed.pathname.replace(/\/+$/, '')}`;
+  } catch {
+    return trimmed.toLowerCase();
+  }
+};
+
+// The store is an optimisation: every failure degrades to a full crawl instead of surfacing. A record crawled
+// with other post types or another scope holds the wrong set of posts, so it is ignored the same way.
+export const loadSite = async (siteUrl: string, postTypes: string[], crawlScope?: CrawlScope): Promise<StoredSite | null> => {
+  try {
+    const record = await runRequest<StoredSite | undefined>(SITES_STORE, 'readonly', store => store.get(normalizeSiteUrl(siteUrl)));
+    if (record?.version !== RECORD_VERSION) return null;
+    return describeTarget(record.postTypes, record.crawlScope) === describeTarget(postTypes, crawlScope) ? record : null;
+  } catch (error) {
+    console.warn('Local post store unavailable, falling back to a full crawl:', error);
+    return null;
+  }
+};
+
+export const saveSite = async (siteUrl: string, postTypes: string[], crawlScope: CrawlScope | undefined, posts: WordPressPost[]): Promise<void> => {
+  const record: StoredSite = {
+    siteUrl: normalizeSiteUrl(siteUrl),
+    version: RECORD_VERSION,
+    savedAt: Date.now(),
+    postTypes,
+    crawlScope: crawlScope || {},
+    posts,
+  };
+  try {
+    await runRequest(SITES_STORE, 'readwrite', store => store.put(record));
+  } catch (error) {
+    console.warn('Could not save posts to the local store:', error);
+  }
+};
+
+export const clearSite = async (siteUrl: string): Promise<void> => {
+  try {
+    await runRequest(SITES_STORE, 'readwrite', store => store.delete(normalizeSiteUrl(siteUrl)));
+  } catch (error) {
+    console.warn('Could not clear the local post store:', error);
+  }
+};
+
+export default {
+  normalizeSiteUrl,
+  loadSite,
+  saveSite,
+  clearSite,
+};
@@ -0,0 +1,55 @@
+// services/provenanceService.ts - Seeds and provenance records that let a generated image be recreated
+
+import { ImageGenerationResult, ImageProvenance, ImageSettings } from '../types';
+
+// Largest seed every seeded provider accepts: Gemini takes a signed int32 (Stability would go to 4294967294)
+const MAX_SEED = 2147483647;
+
+export const createSeed = (): number => Math.floor(Math.random() * MAX_SEED);
+
+// FNV-1a over the settings that shape pixels; seed and upload caps are excluded so drift means a visibly different recipe
+export const hashImageSettings = (settings: ImageSettings): string => {
+  const { format, quality, aspectRatio, imageSize, style, negativePrompt, useHighQuality } = settings;
+  const input = JSON.stringify([format, quality, aspectRatio, imageSize, style, negativePrompt, !!useHighQuality]);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// Built from the engine the provider reports, not the configured one, so a fallback is recorded as what it was
+export const buildProvenance = (
+  engine: Pick<ImageGenerationResult, 'provider' | 'model'>,
+  prompt: string,
+  settings: ImageSettings,
+  seed: number | undefined
+): ImageProvenance => ({
+  provider: engine.provider,
+  ...(engine.model ? { model: engine.model } : {}),
+  ...(seed !== undefined ? { seed } : {}),
+  prompt,
+  ...(settings.negativePrompt ? { negativePrompt: settings.negativePrompt } : {}),
+  settingsHash: hashImageSettings(settings),
+  createdAt: new Date().toISOString(),
+});
+
+// Readable summary for editors browsing the media library, with the JSON record in an HTML comment that
+// stays invisible on attachment pages; "--" is escaped because it would end the comment early
+export const buildProvenanceDescription = (provenance: ImageProvenance): string => {
+  const lines = [
+    `Generated by ${provenance.provider}${provenance.model ? ` (${provenance.model})` : ''} on ${provenance.createdAt}.`,
+    provenance.seed !== undefined ? `Seed: ${provenance.seed}` : 'Seed: not supported by this provider',
+    `Prompt: ${provenance.prompt}`,
+  ];
+  const record = JSON.stringify(provenance).replace(/--/g, '\\u002d\\u002d');
+  return `${lines.join('\n')}\n<!-- ai-image-engine:provenance ${record} -->`;
+};
+
+export default {
+  createSeed,
+  hashImageSettings,
+  buildProvenance,
+  buildProvenanceDescription,
+};
@@ -0,0 +1,56 @@
+// services/providerRegistry.ts - Lookup table from provider id to text/image implementation
+
+import { ImageProvider, TextProvider } from '../types';
+import { ValidationError } from './errors';
+import { geminiImageProvider, geminiTextProvider } from './providers/gemini';
+import { groqTextProvider, openAIImageProvider, openAITextProvider } from './providers/openai';
+import { openRouterImageProvider, openRouterTextProvider } from './providers/openRouter';
+import { pollinationsImageProvider } from './providers/pollinations';
+import { stabilityImageProvider } from './providers/stability';
+import { titleCardImageProvider } from './providers/titleCard';
+
+const textProviders = new Map<string, TextProvider>();
+const imageProviders = new Map<string, ImageProvider>();
+
+// ============ REGISTRATION ============
+
+// Registering an existing id replaces it, so built-ins can be swapped out (e.g. for a proxy-backed client)
+export const registerTextProvider = (provider: TextProvider): void => {
+  textProviders.set(provider.id, provider);
+};
+
+export const registerImageProvider = (provider: ImageProvider): void => {
+  imageProviders.set(provider.id, provider);
+};
+
+// ============ LOOKUP ============
+
+export const getTextProvider = (id: string): TextProvider => {
+  const provider = textProviders.get(id);
+  if (!provider) throw new ValidationError(`Unknown text provider: ${id}`, 'provider');
+  return provider;
+};
+
+export const getImageProvider = (id: string): ImageProvider => {
+  const provider = imageProviders.get(id);
+  if (!provider) throw new ValidationError(`Unknown image provider: ${id}`, 'provider');
+  return provider;
+};
+
+export const listTextProviders = (): TextProvider[] => Array.from(textProviders.values());
+
+export const listImageProviders = (): ImageProvider[] => Array.from(imageProviders.values());
+
+// ============ BUILT-INS ============
+
+[geminiTextProvider, openAITextProvider, groqTextProvider, openRouterTextProvider].forEach(registerTextProvider);
+[geminiImageProvider, openAIImageProvider, stabilityImageProvider, openRouterImageProvider, pollinationsImageProvider, titleCardImageProvider].forEach(registerImageProvider);
+
+export default {
+  registerTextProvider,
+  registerImageProvider,
+  getTextProvider,
+  getImageProvider,
+  listTextProviders,
+  listImageProviders,
+};
@@ -0,0 +1,70 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { TextAIProvider } from '../../types';
+import { chatCompletionStream } from './chatCompletions';
+import { groqTextProvider, openAITextProvider } from './openai';
+
+const endpoint = { label: 'Local', baseUrl: 'http://localhost:8000/v1', apiKeyOptional: true };
+
+// Splits the chunks at awkward points on purpose; the reader has to reassemble lines across reads
+const sseResponse = (chunks: string[]) =>
+  new Response(new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(new TextEncoder().encode(chunk)));
+      controller.close();
+    },
+  }), { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+
+const delta = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+
+const stubFetch = (response: Response) => {
+  const fetchMock = vi.fn().mockResolvedValue(response);
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('chatCompletionStream', () => {
+  it('joins deltas split across reads and reports each one', async () => {
+    const stream = `${delta('Hel')}${delta('lo')}data: [DONE]\n\n`;
+    stubFetch(sseResponse([stream.slice(0, 20), stream.slice(20, 45), stream.slice(45)]));
+    const onToken = vi.fn();
+
+    await expect(chatCompletionStream(endpoint, { model: 'local' }, onToken)).resolves.toBe('Hello');
+    expect(onToken.mock.calls).toEqual([['Hel'], ['lo']]);
+  });
+
+  it('skips comments, keep-alives and lines that are not JSON', async () => {
+    stubFetch(sseResponse([': OPENROUTER PROCESSING\n\n', delta('A'), 'data: \n\n', 'data: {"choices":[{"delta"\n\n', delta('B'), 'data: [DONE]\n\n']));
+
+    await expect(chatCompletionStream(endpoint, { model: 'local' })).resolves.toBe('AB');
+  });
+
+  it('still surfaces an error envelope sent mid-stream', async () => {
+    stubFetch(sseResponse([delta('A'), `data: ${JSON.stringify({ error: { message: 'upstream overloaded' } })}\n\n`]));
+
+    await expect(chatCompletionStream(endpoint, { model: 'local' })).rejects.toThrow('upstream overloaded');
+  });
+});
+
+describe('token limit field', () => {
+  const reply = () => new Response(JSON.stringify({ choices: [{ message: { content: 'pong' } }] }), { status: 200 });
+
+  it('sends max_completion_tokens to OpenAI, including the connection probe', async () => {
+    const fetchMock = stubFetch(reply());
+
+    await expect(openAITextProvider.test({ provider: TextAIProvider.OpenAI, apiKey: 'sk-test' })).resolves.toMatchObject({ success: true });
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.max_completion_tokens).toBe(1);
+    expect(body).not.toHaveProperty('max_tokens');
+  });
+
+  it('keeps max_tokens for other OpenAI-compatible providers', async () => {
+    const fetchMock = stubFetch(reply());
+
+    await groqTextProvider.test({ provider: TextAIProvider.Groq, apiKey: 'gsk-test' });
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).max_tokens).toBe(1);
+  });
+});
@@ -0,0 +1,204 @@
+// services/providers/chatCompletions.ts - OpenAI-compatible chat-completions client and text provider factory
+
+import { AnalysisAIConfig, TextGenerationOptions, TextProvider, TextProviderCapabilities } from '../../types';
+import { withRetry } from '../retry';
+import { APIError, AuthenticationError, RateLimitError } from '../errors';
+import { normalizeBaseUrl, parseJsonText } from './shared';
+
+export interface ChatMessage {
+  content?: string | null;
+  images?: Array<{ image_url?: { url?: string } }>;
+}
+
+export interface ChatEndpoint {
+  label: string;
+  baseUrl: string;
+  apiKey?: string;
+  apiKeyOptional?: boolean; // Self-hosted servers (vLLM, llama.cpp) usually run without auth
+  headers?: Record<string, string>;
+  parseError?: (response: Response, model: string) => Promise<APIError>;
+}
+
+const parseChatError = (label: string) => async (response: Response, model: string): Promise<APIError> => {
+  let message = `${response.status} ${response.statusText}`;
+  try {
+    const body = await response.json();
+    message = body?.error?.message || message;
+  } catch {
+    // Non-JSON error body, keep the status line
+  }
+
+  if (response.status === 401) return new AuthenticationError(`${label} authentication failed: ${message}`);
+  if (response.status === 429) return new RateLimitError(`${label} rate limited (${model}): ${message}`);
+  if (response.status === 400 || response.status === 404) {
+    return new APIError(`${label} model "${model}" rejected the request: ${message}`, response.status, false);
+  }
+  return new APIError(`${label} request failed (${model}): ${message}`, response.status, response.status >= 500);
+};
+
+type ChatBody = Record<string, unknown> & { model: string };
+
+// POST /chat/completions, retrying until a successful response is handed back (bodies are never re-read)
+const postChatCompletion = (endpoint: ChatEndpoint, body: ChatBody, signal?: AbortSignal): Promise<Response> => {
+  if (!endpoint.apiKey && !endpoint.apiKeyOptional) throw new AuthenticationError(`${endpoint.label} API key is not configured`);
+  const parseError = endpoint.parseError || parseChatError(endpoint.label);
+
+  return withRetry({
+    operation: async () => {
+      const response = await fetch(`${normalizeBaseUrl(endpoint.baseUrl)}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(endpoint.apiKey ? { 'Authorization': `Bearer ${endpoint.apiKey}` } : {}),
+          ...endpoint.headers,
+        },
+        body: JSON.stringify(body),
+        signal,
+      });
+      if (!response.ok) throw await parseError(response, body.model);
+      return response;
+    },
+    config: { maxRetries: 2 },
+    signal,
+  });
+};
+
+export const chatCompletion = async (
+  endpoint: ChatEndpoint,
+  body: ChatBody,
+  signal?: AbortSignal
+): Promise<ChatMessage> => {
+  const response = await postChatCompletion(endpoint, body, signal);
+  const data = await response.json();
+  // Aggregators report upstream provider failures inside a 200 envelope
+  if (data?.error) throw new APIError(`${endpoint.label} model "${body.model}" failed: ${data.error.message}`, data.error.code, false);
+  const message = data?.choices?.[0]?.message as ChatMessage | undefined;
+  if (!message) throw new APIError(`${endpoint.label} model "${body.model}" returned no choices`);
+  return message;
+};
+
+// Streams a completion over server-sent events, reporting each content delta and resolving with the full text
+export const chatCompletionStream = async (
+  endpoint: ChatEndpoint,
+  body: ChatBody,
+  onToken?: (delta: string) => void,
+  signal?: AbortSignal
+): Promise<string> => {
+  const response = await postChatCompletion(endpoint, { ...body, stream: true }, signal);
+  if (!response.body) throw new APIError(`${endpoint.label} model "${body.model}" returned an empty stream`);
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+
+  const handleLine = (line: string): boolean => {
+    if (!line.startsWith('data:')) return false; // SSE comments (": OPENROUTER PROCESSING") and blank separators
+    const payload = line.slice(5).trim();
+    if (payload === '[DONE]') return true;
+
+    // Keep-alives and proxy noise can arrive as data lines too; one bad line must not end the stream
+    let data: any;
+    try {
+      data = JSON.parse(payload);
+    } catch {
+      return false;
+    }
+    if (data?.error) throw new APIError(`${endpoint.label} model "${body.model}" failed: ${data.error.message}`, data.error.code, false);
+    const delta: string | undefined = data?.choices?.[0]?.delta?.content;
+    if (delta) {
+      text += delta;
+      onToken?.(delta);
+    }
+    return false;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        if (handleLine(line.trim())) return text;
+      }
+    }
+    handleLine(buffer.trim());
+    return text;
+  } finally {
+    reader.releaseLock();
+  }
+};
+
+export interface ChatCompletionsProviderOptions {
+  id: string;
+  label: string;
+  baseUrl: string;
+  defaultModel: string;
+  capabilities: TextProviderCapabilities;
+  headers?: () => Record<string, string>;
+  parseError?: ChatEndpoint['parseError'];
+  isModelSupported?: (model: string) => boolean;
+  maxTokensField?: 'max_tokens' | 'max_completion_tokens'; // Newer OpenAI models reject max_tokens; defaults to it
+}
+
+// Builds a TextProvider for any service that speaks the OpenAI chat-completions dialect
+export const createChatCompletionsTextProvider = (options: ChatCompletionsProviderOptions): TextProvider => {
+  // A custom endpoint serves whatever models it was launched with, so any id is accepted there
+  const resolveModel = (config: AnalysisAIConfig): string =>
+    config.model && (config.baseUrl || (options.isModelSupported?.(config.model) ?? true)) ? config.model : options.defaultModel;
+
+  const endpointFor = (config: AnalysisAIConfig): ChatEndpoint => ({
+    label: options.label,
+    baseUrl: config.baseUrl || options.baseUrl,
+    apiKey: config.apiKey,
+    apiKeyOptional: !!config.baseUrl,
+    headers: options.headers?.(),
+    parseError: options.parseError,
+  });
+
+  // Vision models take multi-part content; image URLs are passed through for the provider to fetch
+  const buildContent = (prompt: string, images?: string[]) =>
+    options.capabilities.vision && images?.length
+      ? [{ type: 'text', text: prompt }, ...images.map(url => ({ type: 'image_url', image_url: { url } }))]
+      : prompt;
+
+  const buildBody = (config: AnalysisAIConfig, prompt: string, extra: Record<string, unknown>, images?: string[]): ChatBody => ({
+    model: resolveModel(config),
+    messages: [{ role: 'user', content: buildContent(prompt, images) }],
+    ...extra,
+  });
+
+  const tokenLimit = (maxTokens?: number): Record<string, unknown> =>
+    maxTokens ? { [options.maxTokensField || 'max_tokens']: maxTokens } : {};
+
+  const complete = (config: AnalysisAIConfig, prompt: string, extra: Record<string, unknown>, signal?: AbortSignal, images?: string[]) =>
+    chatCompletion(endpointFor(config), buildBody(config, prompt, extra, images), signal);
+
+  return {
+    id: options.id,
+    capabilities: options.capabilities,
+
+    async generate(config, prompt, { maxTokens, signal, onToken, images } = {}) {
+      return chatCompletionStream(endpointFor(config), buildBody(config, prompt, tokenLimit(maxTokens), images), onToken, signal);
+    },
+
+    async generateJson<T>(config: AnalysisAIConfig, prompt: string, { maxTokens, signal, images }: TextGenerationOptions = {}) {
+      const extra = tokenLimit(maxTokens);
+      if (options.capabilities.jsonMode) extra.response_format = { type: 'json_object' };
+      const message = await complete(config, prompt, extra, signal, images);
+      return parseJsonText<T>(message.content || "", `${options.label} ${resolveModel(config)}`);
+    },
+
+    async test(config) {
+      const model = resolveModel(config);
+      try {
+        await complete(config, 'ping', tokenLimit(1));
+        return { success: true, message: `Connected to ${model}` };
+      } catch (e: any) {
+        return { success: false, message: e.message || `${model}: Connection Failed` };
+      }
+    },
+  };
+};
@@ -0,0 +1,141 @@
+// services/providers/gemini.ts - Google Gemini text and image providers
+
+import { GoogleGenAI } from "@google/genai";
+import { AIProvider, AnalysisAIConfig, ImageProvider, TextAIProvider, TextGenerationOptions, TextProvider } from '../../types';
+import { fetchImageAsBase64, parseJsonText } from './shared';
+import { pollinationsImageProvider } from './pollinations';
+
+const TEXT_MODEL = 'gemini-2.0-flash'; // Most stable reasoning model
+const TEXT_MODEL_FALLBACK = 'gemini-1.5-flash';
+const IMAGE_MODEL = 'gemini-2.0-flash-exp'; // Experimental visual generation
+
+export const getGeminiClient = (apiKey?: string) => {
+  const key = apiKey || process.env.API_KEY;
+  if (!key) throw new Error("API Key Configuration Missing");
+  return new GoogleGenAI({ apiKey: key });
+};
+
+// Gemini cannot fetch arbitrary URLs, so images are downloaded and sent inline
+const buildContents = async (prompt: string, images?: string[], signal?: AbortSignal) => {
+  if (!images?.length) return prompt;
+  const imageParts = await Promise.all(images.map(async image => {
+    const dataUrl = image.startsWith('data:') ? image : await fetchImageAsBase64(image, signal);
+    const [header, data] = dataUrl.split(',');
+    return { inlineData: { mimeType: header.replace(/^data:|;base64$/g, ''), data } };
+  }));
+  return { parts: [{ text: prompt }, ...imageParts] };
+};
+
+export const geminiTextProvider: TextProvider = {
+  id: TextAIProvider.Gemini,
+  capabilities: { vision: true, jsonMode: true, maxTokens: 8192 },
+
+  async generate(config, prompt, { maxTokens, signal, onToken, images } = {}) {
+    const ai = getGeminiClient(config.apiKey);
+    const contents = await buildContents(prompt, images, signal);
+    let streamed = false;
+
+    const run = async (model: string): Promise<string> => {
+      const request = { model, contents, config: { maxOutputTokens: maxTokens, abortSignal: signal } };
+      if (!onToken) return (await ai.models.generateContent(request)).text || "";
+
+      let text = "";
+      for await (const chunk of await ai.models.generateContentStream(request)) {
+        if (chunk.text) {
+          text += chunk.text;
+          streamed = true;
+          onToken(chunk.text);
+        }
+      }
+      return text;
+    };
+
+    // Retry logic with model fallback
+    try {
+      return await run(config.model || TEXT_MODEL);
+    } catch (e: any) {
+      // Tokens already handed to the caller cannot be retracted, so a half-streamed answer is not retried
+      if (signal?.aborted || streamed) throw e;
+      console.warn(`Primary model failed, attempting fallback to ${TEXT_MODEL_FALLBACK}`, e);
+      return run(TEXT_MODEL_FALLBACK);
+    }
+  },
+
+  async generateJson<T>(config: AnalysisAIConfig, prompt: string, { maxTokens, signal, images }: TextGenerationOptions = {}) {
+    const ai = getGeminiClient(config.apiKey);
+    const model = config.model || TEXT_MODEL;
+    const response = await ai.models.generateContent({
+      model,
+      contents: await buildContents(prompt, images, signal),
+      config: {
+        responseMimeType: "application/json",
+        maxOutputTokens: maxTokens,
+        abortSignal: signal,
+      },
+    });
+    return parseJsonText<T>(response.text || "", model);
+  },
+
+  async test(config) {
+    const model = config.model || TEXT_MODEL;
+    try {
+      const ai = getGeminiClient(config.apiKey);
+      // Simple ping to check connectivity and auth
+      await ai.models.generateContent({
+        model,
+        contents: 'ping',
+        config: { maxOutputTokens: 1 }
+      });
+      return { success: true, message: `Connected to ${model}` };
+    } catch (e: any) {
+      return { success: false, message: e.message || "Connection Failed" };
+    }
+  },
+};
+
+export const geminiImageProvider: ImageProvider = {
+  id: AIProvider.Gemini,
+  capabilities: { negativePrompt: false, requiresApiKey: true, seed: true },
+
+  async generate(config, prompt, settings, signal) {
+    try {
+      const ai = getGeminiClient(config.apiKey);
+      const response = await ai.models.generateContent({
+        model: IMAGE_MODEL,
+        contents: { parts: [{ text: prompt }] },
+        config: {
+          imageConfig: { aspectRatio: settings.aspectRatio },
+          ...(settings.seed !== undefined ? { seed: settings.seed } : {}),
+          abortSignal: signal,
+        }
+      });
+
+      for (const part of response.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData) {
+          return { dataUrl: `data:image/png;base64,${part.inlineData.data}`, provider: AIProvider.Gemini, model: IMAGE_MODEL };
+        }
+      }
+      throw new Error("No image data in Gemini response");
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      // The fallback reports itself as Pollinations, so provenance names the engine that really drew the image
+      console.warn("Gemini Image Gen failed, falling back to Pollinations engine seamlessly.", error);
+      return pollinationsImageProvider.generate(config, prompt, settings, signal);
+    }
+  },
+
+  async test(config) {
+    try {
+      const ai = getGeminiClient(config.apiKey);
+      // Test capability
+      await ai.models.generateContent({
+          model: TEXT_MODEL,
+          contents: 'ping',
+          config: { maxOutputTokens: 1 }
+      });
+      return { success: true, message: "Gemini Image Engine Ready" };
+    } catch (e: any) {
+      return { success: false, message: e.message };
+    }
+  },
+};
@@ -0,0 +1,111 @@
+// services/providers/openRouter.ts - OpenRouter text and image-output models
+
+import { AIProvider, ImageProvider, TextAIProvider } from '../../types';
+import { APIError, AuthenticationError, ContentPolicyError, QuotaExceededError, RateLimitError } from '../errors';
+import { chatCompletion, createChatCompletionsTextProvider } from './chatCompletions';
+import { fetchImageAsBase64, normalizeBaseUrl } from './shared';
+
+const OPENROUTER_TEXT_MODEL = 'openai/gpt-4o-mini';
+const OPENROUTER_IMAGE_MODEL = 'google/gemini-2.5-flash-image-preview';
+const OPENROUTER_API_BASE = 'https://openrouter.ai/api/v1';
+
+// OpenRouter model ids are always "vendor/model"
+const isOpenRouterModel = (model: string): boolean => model.includes('/');
+
+// Attribution headers OpenRouter uses for app rankings and abuse tracing
+const getOpenRouterHeaders = (): Record<string, string> => ({
+  'HTTP-Referer': typeof window !== 'undefined' ? window.location.origin : 'https://localhost',
+  'X-Title': 'AI Image Engine for WordPress',
+});
+
+const parseOpenRouterError = async (response: Response, model: string): Promise<APIError> => {
+  let message = `${response.status} ${response.statusText}`;
+  try {
+    const body = await response.json();
+    message = body?.error?.metadata?.raw || body?.error?.message || message;
+  } catch {
+    // Non-JSON error body, keep the status line
+  }
+
+  if (response.status === 402) return new QuotaExceededError(`OpenRouter credits exhausted (${model}): ${message}`);
+  if (response.status === 403) return new ContentPolicyError(`OpenRouter moderation flagged the request (${model}): ${message}`);
+  if (response.status === 401) return new AuthenticationError(`OpenRouter authentication failed: ${message}`);
+  if (response.status === 429) return new RateLimitError(`OpenRouter rate limited (${model}): ${message}`);
+  if (response.status === 400 || response.status === 404) {
+    return new APIError(`OpenRouter model "${model}" rejected the request: ${message}`, response.status, false);
+  }
+  return new APIError(`OpenRouter request failed (${model}): ${message}`, response.status, response.status >= 500);
+};
+
+export const openRouterTextProvider = createChatCompletionsTextProvider({
+  id: TextAIProvider.OpenRouter,
+  label: 'OpenRouter',
+  baseUrl: OPENROUTER_API_BASE,
+  defaultModel: OPENROUTER_TEXT_MODEL,
+  capabilities: { vision: true, jsonMode: true, maxTokens: 4096 },
+  headers: getOpenRouterHeaders,
+  parseError: parseOpenRouterError,
+  isModelSupported: isOpenRouterModel,
+});
+
+const resolveImageModel = (model?: string): string =>
+  model && isOpenRouterModel(model) ? model : OPENROUTER_IMAGE_MODEL;
+
+export const openRouterImageProvider: ImageProvider = {
+  id: AIProvider.OpenRouter,
+  capabilities: { negativePrompt: false, requiresApiKey: true, seed: true },
+
+  async generate(config, prompt, settings, signal) {
+    const model = resolveImageModel(config.model);
+    const message = await chatCompletion(
+      {
+        label: 'OpenRouter',
+        baseUrl: config.baseUrl || OPENROUTER_API_BASE,
+        apiKey: config.apiKey,
+        headers: getOpenRouterHeaders(),
+        parseError: parseOpenRouterError,
+      },
+      {
+        model,
+        messages: [{
+          role: 'user',
+          content: `Generate an image. ${prompt}${settings.negativePrompt ? `\nAvoid: ${settings.negativePrompt}` : ''}`,
+        }],
+        modalities: ['image', 'text'],
+        image_config: { aspect_ratio: settings.aspectRatio },
+        // Forwarded to the upstream model; determinism is best-effort and model-dependent
+        ...(settings.seed !== undefined ? { seed: settings.seed } : {}),
+      },
+      signal
+    );
+
+    const imageUrl = message.images?.[0]?.image_url?.url;
+    if (!imageUrl) throw new APIError(`OpenRouter model "${model}" returned no image (is it image-capable?)`);
+    const dataUrl = imageUrl.startsWith('data:') ? imageUrl : await fetchImageAsBase64(imageUrl, signal);
+    return { dataUrl, provider: AIProvider.OpenRouter, model };
+  },
+
+  async test(config) {
+    const model = resolveImageModel(config.model);
+    try {
+      if (!config.apiKey) throw new AuthenticationError('OpenRouter API key is not configured');
+      const baseUrl = normalizeBaseUrl(config.baseUrl || OPENROUTER_API_BASE);
+      const headers = { 'Authorization': `Bearer ${config.apiKey}`, ...getOpenRouterHeaders() };
+      // Model catalogue is public; the key is validated separately so both failures are reported distinctly
+      const keyResponse = await fetch(`${baseUrl}/key`, { headers });
+      if (!keyResponse.ok) throw await parseOpenRouterError(keyResponse, model);
+
+      const modelsResponse = await fetch(`${baseUrl}/models`, { headers });
+      if (!modelsResponse.ok) throw await parseOpenRouterError(modelsResponse, model);
+      const { data } = await modelsResponse.json();
+      const entry = (data as any[] | undefined)?.find(m => m.id === model);
+      if (!entry) return { success: false, message: `${model}: not found on OpenRouter` };
+      if (!entry.architecture?.output_modalities?.includes('image')) {
+        return { success: false, message: `${model}: does not support image output` };
+      }
+      return { success: true, message: `OpenRouter ${model} Ready` };
+    } catch (e: any) {
+      return { success: false, message: e.message };
+    }
+  },
+};
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AIProvider, AspectRatio, ImageFormat, ImageSettings, ImageSize } from '../../types';
+import { ContentPolicyError, QuotaExceededError } from '../errors';
+import { openAIImageProvider } from './openai';
+
+const settings = (overrides: Partial<ImageSettings> = {}): ImageSettings => ({
+  format: ImageFormat.WebP,
+  quality: 80,
+  aspectRatio: AspectRatio.Landscape,
+  imageSize: ImageSize.K1,
+  style: '',
+  negativePrompt: '',
+  ...overrides,
+});
+
+const config = (model: string) => ({ provider: AIProvider.DallE3, apiKey: 'sk-test', model, baseUrl: 'http://localhost:4010/v1/' });
+
+const json = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+// Stands in for the OpenAI endpoint; returns the fetch mock so each test can read back the request body
+const stubEndpoint = (...responses: Response[]) => {
+  const fetchMock = vi.fn();
+  responses.forEach(response => fetchMock.mockResolvedValueOnce(response));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+const sentBody = (fetchMock: ReturnType<typeof vi.fn>) => JSON.parse(fetchMock.mock.calls[0][1].body);
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('openAIImageProvider.generate', () => {
+  it('maps aspect ratio and quality tier for dall-e-3 and asks for base64', async () => {
+    const fetchMock = stubEndpoint(json(200, { data: [{ b64_json: 'AAAA' }] }));
+
+    const result = await openAIImageProvider.generate(config('dall-e-3'), 'a lighthouse', settings({ aspectRatio: AspectRatio.Portrait, useHighQuality: true }));
+
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:4010/v1/images/generations');
+    expect(sentBody(fetchMock)).toMatchObject({ model: 'dall-e-3', size: '1024x1792', quality: 'hd', response_format: 'b64_json' });
+    expect(result).toEqual({ dataUrl: 'data:image/png;base64,AAAA', provider: AIProvider.DallE3, model: 'dall-e-3' });
+  });
+
+  it('uses the gpt-image sizes and tiers and encodes to the configured format', async () => {
+    const fetchMock = stubEndpoint(json(200, { data: [{ b64_json: 'AAAA' }] }));
+
+    const result = await openAIImageProvider.generate(config('gpt-image-1'), 'a lighthouse', settings());
+
+    const body = sentBody(fetchMock);
+    expect(body).toMatchObject({ model: 'gpt-image-1', size: '1536x1024', quality: 'medium', output_format: 'webp' });
+    expect(body).not.toHaveProperty('response_format');
+    expect(result.dataUrl).toBe('data:image/webp;base64,AAAA');
+  });
+
+  it('falls back to png output for AVIF, which gpt-image cannot encode', async () => {
+    const fetchMock = stubEndpoint(json(200, { data: [{ b64_json: 'AAAA' }] }));
+
+    const result = await openAIImageProvider.generate(config('gpt-image-1'), 'a lighthouse', settings({ format: ImageFormat.AVIF }));
+
+    expect(sentBody(fetchMock).output_format).toBe('png');
+    expect(result.dataUrl).toBe('data:image/png;base64,AAAA');
+  });
+
+  it('maps a 400 content_policy_violation to ContentPolicyError without retrying', async () => {
+    const fetchMock = stubEndpoint(json(400, { error: { code: 'content_policy_violation', message: 'Rejected by the safety system' } }));
+
+    await expect(openAIImageProvider.generate(config('dall-e-3'), 'a lighthouse', settings())).rejects.toBeInstanceOf(ContentPolicyError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('maps a 429 insufficient_quota to QuotaExceededError without retrying', async () => {
+    const fetchMock = stubEndpoint(json(429, { error: { code: 'insufficient_quota', message: 'You exceeded your current quota' } }));
+
+    await expect(openAIImageProvider.generate(config('dall-e-3'), 'a lighthouse', settings())).rejects.toBeInstanceOf(QuotaExceededError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,146 @@
+// services/providers/openai.ts - OpenAI Images (DALL-E 3 / gpt-image) plus OpenAI and Groq chat models
+
+import { AIProvider, AspectRatio, ImageFormat, ImageProvider, ImageSettings, TextAIProvider } from '../../types';
+import { withRetry } from '../retry';
+import { APIError, AuthenticationError, ContentPolicyError, QuotaExceededError, RateLimitError } from '../errors';
+import { createChatCompletionsTextProvider } from './chatCompletions';
+import { fetchImageAsBase64, normalizeBaseUrl } from './shared';
+
+const OPENAI_IMAGE_MODEL = 'dall-e-3';
+const OPENAI_TEXT_MODEL = 'gpt-4o-mini';
+const OPENAI_API_BASE = 'https://api.openai.com/v1';
+const GROQ_TEXT_MODEL = 'llama-3.3-70b-versatile';
+const GROQ_API_BASE = 'https://api.groq.com/openai/v1';
+
+// OpenAI only serves one size per aspect ratio, so ImageSize is clamped to the largest it offers
+const OPENAI_IMAGE_SIZES: Record<'dall-e' | 'gpt-image', Record<AspectRatio, string>> = {
+  'dall-e': {
+    [AspectRatio.Landscape]: '1792x1024',
+    [AspectRatio.Square]: '1024x1024',
+    [AspectRatio.Portrait]: '1024x1792',
+  },
+  'gpt-image': {
+    [AspectRatio.Landscape]: '1536x1024',
+    [AspectRatio.Square]: '1024x1024',
+    [AspectRatio.Portrait]: '1024x1536',
+  },
+};
+
+const resolveOpenAIImageModel = (model?: string): string =>
+  model && /^(dall-e|gpt-image)/.test(model) ? model : OPENAI_IMAGE_MODEL;
+
+const getOpenAIImageParams = (model: string, settings: ImageSettings) => {
+  const isGptImage = model.startsWith('gpt-image');
+  const size = OPENAI_IMAGE_SIZES[isGptImage ? 'gpt-image' : 'dall-e'][settings.aspectRatio]
+    || OPENAI_IMAGE_SIZES['dall-e'][AspectRatio.Square];
+  const quality = isGptImage
+    ? (settings.useHighQuality ? 'high' : 'medium')
+    : (settings.useHighQuality ? 'hd' : 'standard');
+  return { size, quality, isGptImage };
+};
+
+// Translate an OpenAI error envelope into the typed errors used across the app
+const parseOpenAIError = async (response: Response): Promise<APIError> => {
+  let message = `${response.status} ${response.statusText}`;
+  let code = '';
+  try {
+    const body = await response.json();
+    message = body?.error?.message || message;
+    code = body?.error?.code || body?.error?.type || '';
+  } catch {
+    // Non-JSON error body (proxy pages etc.), keep the status line
+  }
+
+  if (code === 'content_policy_violation' || code === 'moderation_blocked' || /safety system/i.test(message)) {
+    return new ContentPolicyError(`OpenAI rejected the prompt: ${message}`);
+  }
+  if (code === 'insufficient_quota' || code === 'billing_hard_limit_reached') {
+    return new QuotaExceededError(`OpenAI quota exhausted: ${message}`);
+  }
+  if (response.status === 401) return new AuthenticationError(`OpenAI authentication failed: ${message}`);
+  if (response.status === 429) {
+    const retryAfter = response.headers.get('Retry-After');
+    return new RateLimitError(`OpenAI rate limited: ${message}`, retryAfter ? parseInt(retryAfter, 10) : undefined);
+  }
+  return new APIError(`OpenAI request failed: ${message}`, response.status, response.status >= 500);
+};
+
+export const openAIImageProvider: ImageProvider = {
+  id: AIProvider.DallE3,
+  capabilities: { negativePrompt: false, requiresApiKey: true, seed: false },
+
+  async generate(config, prompt, settings, signal) {
+    if (!config.apiKey) throw new AuthenticationError('OpenAI API key is not configured');
+
+    const model = resolveOpenAIImageModel(config.model);
+    const { size, quality, isGptImage } = getOpenAIImageParams(model, settings);
+    const baseUrl = normalizeBaseUrl(config.baseUrl || OPENAI_API_BASE);
+
+    const body: Record<string, unknown> = { model, prompt: prompt.slice(0, 4000), n: 1, size, quality };
+    // gpt-image models always return base64, reject response_format and can encode to the configured format
+    // AVIF is not among its encoders; the transcoding stage converts the PNG afterwards
+    const nativeFormat = isGptImage && settings.format !== ImageFormat.AVIF;
+    if (isGptImage) body.output_format = nativeFormat ? settings.format.split('/')[1] : 'png';
+    else body.response_format = 'b64_json';
+    const mimeType = nativeFormat ? settings.format : 'image/png';
+
+    const dataUrl = await withRetry({
+      operation: async () => {
+        const response = await fetch(`${baseUrl}/images/generations`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${config.apiKey}`,
+          },
+          body: JSON.stringify(body),
+          signal,
+        });
+        if (!response.ok) throw await parseOpenAIError(response);
+
+        const data = await response.json();
+        const image = data?.data?.[0];
+        if (image?.b64_json) return `data:${mimeType};base64,${image.b64_json}`;
+        if (image?.url) return fetchImageAsBase64(image.url, signal);
+        throw new APIError('No image data in OpenAI response');
+      },
+      config: { maxRetries: 2 },
+      signal,
+    });
+    return { dataUrl, provider: AIProvider.DallE3, model };
+  },
+
+  async test(config) {
+    const model = resolveOpenAIImageModel(config.model);
+    try {
+      if (!config.apiKey) throw new AuthenticationError('OpenAI API key is not configured');
+      const baseUrl = normalizeBaseUrl(config.baseUrl || OPENAI_API_BASE);
+      const response = await fetch(`${baseUrl}/models/${model}`, {
+        headers: { 'Authorization': `Bearer ${config.apiKey}` },
+      });
+      if (!response.ok) throw await parseOpenAIError(response);
+      return { success: true, message: `OpenAI ${model} Ready` };
+    } catch (e: any) {
+      return { success: false, message: e.message };
+    }
+  },
+};
+
+export const openAITextProvider = createChatCompletionsTextProvider({
+  id: TextAIProvider.OpenAI,
+  label: 'OpenAI',
+  baseUrl: OPENAI_API_BASE,
+  defaultModel: OPENAI_TEXT_MODEL,
+  capabilities: { vision: true, jsonMode: true, maxTokens: 16384 },
+  parseError: parseOpenAIError,
+  isModelSupported: model => /^(gpt-|o\d|chatgpt-)/.test(model),
+  maxTokensField: 'max_completion_tokens',
+});
+
+export const groqTextProvider = createChatCompletionsTextProvider({
+  id: TextAIProvider.Groq,
+  label: 'Groq',
+  baseUrl: GROQ_API_BASE,
+  defaultModel: GROQ_TEXT_MODEL,
+  capabilities: { vision: false, jsonMode: true, maxTokens: 8192 },
+  isModelSupported: model => !model.startsWith('gemini'),
+});
@@ -0,0 +1,30 @@
+// services/providers/pollinations.ts - Free, keyless image generation (default engine)
+
+import { AIProvider, ImageProvider, ImageSize } from '../../types';
+import { getTargetDimensions } from '../imageProcessingService';
+import { fetchImageAsBase64, normalizeBaseUrl } from './shared';
+
+const POLLINATIONS_API_BASE = 'https://image.pollinations.ai';
+const POLLINATIONS_MODEL = 'flux';
+
+export const pollinationsImageProvider: ImageProvider = {
+  id: AIProvider.Pollinations,
+  capabilities: { negativePrompt: false, requiresApiKey: false, seed: true },
+
+  async generate(config, prompt, settings, signal) {
+    // Flux tops out around 2K; 4K targets are upscaled by the post-processing stage
+    const size = settings.imageSize === ImageSize.K4 ? ImageSize.K2 : settings.imageSize;
+    const d = getTargetDimensions(settings.aspectRatio, size, settings.maxUploadWidth);
+    // A fresh seed per call also keeps Pollinations from serving a cached image
+    const seed = settings.seed ?? Math.floor(Math.random() * 1000000);
+    const safePrompt = encodeURIComponent(prompt.slice(0, 500)); // Truncate to avoid URL limits
+    const baseUrl = config.provider === AIProvider.Pollinations && config.baseUrl ? config.baseUrl : POLLINATIONS_API_BASE;
+    const url = `${normalizeBaseUrl(baseUrl)}/prompt/${safePrompt}?width=${d.width}&height=${d.height}&nologo=true&seed=${seed}&model=${POLLINATIONS_MODEL}`;
+
+    return { dataUrl: await fetchImageAsBase64(url, signal), provider: AIProvider.Pollinations, model: POLLINATIONS_MODEL };
+  },
+
+  async test() {
+    return { success: true, message: "Pollinations Connected" };
+  },
+};
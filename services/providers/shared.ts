@@ -0,0 +1,43 @@
+// services/providers/shared.ts - Helpers shared by the AI provider implementations
+
+import { APIError } from '../errors';
+
+export const normalizeBaseUrl = (baseUrl: string): string => baseUrl.replace(/\/$/, '');
+
+export const extractJson = (text: string): string | null => {
+  try {
+    const codeBlockMatch = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+    if (codeBlockMatch?.[1]) return codeBlockMatch[1].trim();
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start !== -1 && end !== -1 && end > start) return text.substring(start, end + 1);
+  } catch (e) {
+    console.error("JSON extraction failed:", e);
+  }
+  return null;
+};
+
+// Tolerates code fences and chatter around the object; models do not always honour JSON mode
+export const parseJsonText = <T>(text: string, source: string): T => {
+  const jsonStr = extractJson(text);
+  if (!jsonStr) throw new APIError(`${source} returned no JSON object`);
+  try {
+    return JSON.parse(jsonStr) as T;
+  } catch {
+    throw new APIError(`${source} returned malformed JSON`);
+  }
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+
+export const fetchImageAsBase64 = async (imageUrl: string, signal?: AbortSignal): Promise<string> => {
+  const response = await fetch(imageUrl, { signal });
+  if (!response.ok) throw new Error(`External image fetch failed: ${response.status}`);
+  return blobToDataUrl(await response.blob());
+};
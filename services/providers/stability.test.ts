@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AIProvider, AspectRatio, ImageFormat, ImageSettings, ImageSize } from '../../types';
+import { AuthenticationError, ContentPolicyError } from '../errors';
+import { stabilityImageProvider } from './stability';
+
+const settings = (overrides: Partial<ImageSettings> = {}): ImageSettings => ({
+  format: ImageFormat.WebP,
+  quality: 80,
+  aspectRatio: AspectRatio.Portrait,
+  imageSize: ImageSize.K1,
+  style: '',
+  negativePrompt: 'text, watermark',
+  ...overrides,
+});
+
+const config = { provider: AIProvider.Stability, apiKey: 'sk-test', model: 'ultra', baseUrl: 'http://localhost:4010' };
+
+const json = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const stubEndpoint = (...responses: Response[]) => {
+  const fetchMock = vi.fn();
+  responses.forEach(response => fetchMock.mockResolvedValueOnce(response));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+// Node has no FileReader; this one covers the readAsDataURL path blobToDataUrl takes
+class NodeFileReader {
+  result: string | null = null;
+  onloadend: (() => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+  readAsDataURL(blob: Blob) {
+    blob.arrayBuffer().then(buffer => {
+      this.result = `data:${blob.type};base64,${Buffer.from(buffer).toString('base64')}`;
+      this.onloadend?.();
+    }, error => this.onerror?.(error));
+  }
+}
+
+beforeEach(() => {
+  vi.stubGlobal('FileReader', NodeFileReader);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('stabilityImageProvider.generate', () => {
+  it('sends the prompt settings as multipart fields and decodes the binary image', async () => {
+    const fetchMock = stubEndpoint(new Response(new Blob([new Uint8Array([1, 2, 3])], { type: 'image/webp' })));
+
+    const result = await stabilityImageProvider.generate(config, 'a lighthouse', { ...settings(), seed: 42 });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:4010/v2beta/stable-image/generate/ultra');
+    const form = init.body as FormData;
+    expect(form.get('prompt')).toBe('a lighthouse');
+    expect(form.get('negative_prompt')).toBe('text, watermark');
+    expect(form.get('aspect_ratio')).toBe('9:16');
+    expect(form.get('output_format')).toBe('webp');
+    expect(form.get('seed')).toBe('42');
+    expect(result).toEqual({ dataUrl: 'data:image/webp;base64,AQID', provider: AIProvider.Stability, model: 'ultra' });
+  });
+
+  it('omits an empty negative prompt and requests png for formats Stability cannot encode', async () => {
+    const fetchMock = stubEndpoint(new Response(new Blob([new Uint8Array([1])], { type: 'image/png' })));
+
+    await stabilityImageProvider.generate(config, 'a lighthouse', settings({ negativePrompt: '', format: ImageFormat.AVIF }));
+
+    const form = fetchMock.mock.calls[0][1].body as FormData;
+    expect(form.has('negative_prompt')).toBe(false);
+    expect(form.get('output_format')).toBe('png');
+  });
+
+  it('maps content_moderation to ContentPolicyError', async () => {
+    stubEndpoint(json(403, { name: 'content_moderation', errors: ['Your request was flagged'] }));
+
+    await expect(stabilityImageProvider.generate(config, 'a lighthouse', settings())).rejects.toBeInstanceOf(ContentPolicyError);
+  });
+
+  it('maps any other 403 to AuthenticationError', async () => {
+    stubEndpoint(json(403, { name: 'forbidden', errors: ['Key lacks access to this model'] }));
+
+    const error = await stabilityImageProvider.generate(config, 'a lighthouse', settings()).catch(e => e);
+    expect(error).toBeInstanceOf(AuthenticationError);
+    expect(error).not.toBeInstanceOf(ContentPolicyError);
+  });
+});
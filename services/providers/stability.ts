@@ -0,0 +1,107 @@
+// services/providers/stability.ts - Stability AI (Stable Image v2beta) image provider
+
+import { AIProvider, AspectRatio, ImageProvider } from '../../types';
+import { withRetry } from '../retry';
+import { APIError, AuthenticationError, ContentPolicyError, QuotaExceededError, RateLimitError } from '../errors';
+import { blobToDataUrl, normalizeBaseUrl } from './shared';
+
+const STABILITY_IMAGE_MODEL = 'core';
+const STABILITY_API_BASE = 'https://api.stability.ai';
+const STABILITY_MODELS = ['core', 'ultra', 'sd3'];
+
+const resolveStabilityModel = (model?: string): string =>
+  model && STABILITY_MODELS.includes(model) ? model : STABILITY_IMAGE_MODEL;
+
+// Mapped explicitly rather than sending AspectRatio as-is; generate() falls back to 16:9 for anything unmapped
+const STABILITY_ASPECT_RATIOS: Record<AspectRatio, string> = {
+  [AspectRatio.Landscape]: '16:9',
+  [AspectRatio.Square]: '1:1',
+  [AspectRatio.Portrait]: '9:16',
+};
+
+const parseStabilityError = async (response: Response): Promise<APIError> => {
+  let message = `${response.status} ${response.statusText}`;
+  let name = '';
+  try {
+    const body = await response.json();
+    name = body?.name || '';
+    message = (Array.isArray(body?.errors) && body.errors.join('; ')) || body?.message || message;
+  } catch {
+    // Non-JSON error body, keep the status line
+  }
+
+  // 403 also covers a key without access to the model, so only the moderation name means the prompt was refused
+  if (name === 'content_moderation') {
+    return new ContentPolicyError(`Stability AI rejected the prompt: ${message}`);
+  }
+  if (response.status === 402 || name === 'payment_required') {
+    return new QuotaExceededError(`Stability AI credits exhausted: ${message}`);
+  }
+  if (response.status === 401) return new AuthenticationError(`Stability AI authentication failed: ${message}`);
+  if (response.status === 403) return new AuthenticationError(`Stability AI denied access: ${message}`);
+  if (response.status === 429) return new RateLimitError(`Stability AI rate limited: ${message}`, 10);
+  return new APIError(`Stability AI request failed: ${message}`, response.status, response.status >= 500);
+};
+
+export const stabilityImageProvider: ImageProvider = {
+  id: AIProvider.Stability,
+  capabilities: { negativePrompt: true, requiresApiKey: true, seed: true },
+
+  async generate(config, prompt, settings, signal) {
+    if (!config.apiKey) throw new AuthenticationError('Stability AI API key is not configured');
+
+    const model = resolveStabilityModel(config.model);
+    const baseUrl = normalizeBaseUrl(config.baseUrl || STABILITY_API_BASE);
+    // Stability only encodes png/jpeg/webp, anything else falls back to lossless PNG
+    const outputFormat = settings.format.split('/')[1];
+
+    const buildForm = () => {
+      const form = new FormData();
+      form.append('prompt', prompt.slice(0, 10000));
+      if (settings.negativePrompt) form.append('negative_prompt', settings.negativePrompt);
+      form.append('aspect_ratio', STABILITY_ASPECT_RATIOS[settings.aspectRatio] || '16:9');
+      form.append('output_format', ['png', 'jpeg', 'webp'].includes(outputFormat) ? outputFormat : 'png');
+      if (settings.seed !== undefined) form.append('seed', String(settings.seed));
+      return form;
+    };
+
+    const dataUrl = await withRetry({
+      operation: async () => {
+        const response = await fetch(`${baseUrl}/v2beta/stable-image/generate/${model}`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${config.apiKey}`,
+            'Accept': 'image/*',
+          },
+          body: buildForm(),
+          signal,
+        });
+        if (!response.ok) throw await parseStabilityError(response);
+
+        // Binary response: the Content-Type carries the encoded format
+        const blob = await response.blob();
+        if (blob.size === 0) throw new APIError('No image data in Stability AI response');
+        return blobToDataUrl(blob);
+      },
+      config: { maxRetries: 2 },
+      signal,
+    });
+    return { dataUrl, provider: AIProvider.Stability, model };
+  },
+
+  async test(config) {
+    try {
+      if (!config.apiKey) throw new AuthenticationError('Stability AI API key is not configured');
+      const baseUrl = normalizeBaseUrl(config.baseUrl || STABILITY_API_BASE);
+      // Balance lookup is free and validates the key without spending credits
+      const response = await fetch(`${baseUrl}/v1/user/balance`, {
+        headers: { 'Authorization': `Bearer ${config.apiKey}` },
+      });
+      if (!response.ok) throw await parseStabilityError(response);
+      const { credits } = await response.json();
+      return { success: true, message: `Stability AI ${resolveStabilityModel(config.model)} Ready (${Number(credits).toFixed(1)} credits)` };
+    } catch (e: any) {
+      return { success: false, message: e.message };
+    }
+  },
+};
@@ -0,0 +1,108 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AspectRatio, ImageFormat, ImageSettings, ImageSize } from '../../types';
+import { CanvasFactory, decodeTitle, DEFAULT_TITLE_CARD, layoutTitleCard, renderTitleCard, TextMeasurer } from './titleCard';
+
+// Every glyph is 0.6em wide, read from the px size in the font string
+const measure: TextMeasurer = (text, font) => text.length * Number(font.match(/(\d+)px/)![1]) * 0.6;
+
+const landscape = { width: 1024, height: 576 };
+
+describe('decodeTitle', () => {
+  it('strips tags and decodes entities without a DOM', () => {
+    expect(decodeTitle('Tom&#8217;s <em>Guide</em> to R&amp;D &nbsp; &#x1F680;')).toBe('Tom’s Guide to R&D \u{1F680}');
+  });
+});
+
+describe('layoutTitleCard', () => {
+  it('sets a short title at the largest size on one line', () => {
+    const layout = layoutTitleCard('Hello', landscape, AspectRatio.Landscape, DEFAULT_TITLE_CARD, measure);
+    expect(layout.fontSize).toBe(92); // 16% of the short edge
+    expect(layout.lines).toEqual(['Hello']);
+    expect(layout.x).toBe(82); // 8% left margin
+    expect(layout.textAlign).toBe('left');
+  });
+
+  it('wraps and shrinks a long title until every line fits the safe box', () => {
+    const title = 'How to migrate a busy WordPress site to a new host without losing search rankings';
+    const layout = layoutTitleCard(title, landscape, AspectRatio.Landscape, DEFAULT_TITLE_CARD, measure);
+    const boxWidth = 1024 - 82 * 2;
+
+    expect(layout.fontSize).toBeLessThan(92);
+    expect(layout.lines.length).toBeGreaterThan(1);
+    expect(layout.lines.length).toBeLessThanOrEqual(4);
+    expect(layout.lines.join(' ')).toBe(title);
+    layout.lines.forEach(line => expect(measure(line, layout.font)).toBeLessThanOrEqual(boxWidth));
+    expect(layout.lines.length * layout.lineHeight).toBeLessThanOrEqual(576 - 69 * 2);
+  });
+
+  it('truncates with an ellipsis when even the minimum size overflows', () => {
+    const title = Array.from({ length: 120 }, (_, i) => `word${i}`).join(' ');
+    const layout = layoutTitleCard(title, landscape, AspectRatio.Landscape, DEFAULT_TITLE_CARD, measure);
+
+    expect(layout.fontSize).toBe(23); // 4% of the short edge
+    expect(layout.lines).toHaveLength(4);
+    expect(layout.lines[3].endsWith('…')).toBe(true);
+  });
+
+  it('allows more lines and wider margins for portrait', () => {
+    const title = 'One two three four five six seven eight nine ten eleven twelve thirteen fourteen';
+    const layout = layoutTitleCard(title, { width: 576, height: 1024 }, AspectRatio.Portrait, DEFAULT_TITLE_CARD, measure);
+    expect(layout.x).toBe(58);
+    expect(layout.lines.length).toBeLessThanOrEqual(7);
+  });
+
+  it('centres the text and reserves a logo row above it', () => {
+    const plain = layoutTitleCard('Hello', landscape, AspectRatio.Landscape, { ...DEFAULT_TITLE_CARD, align: 'center' }, measure);
+    const withLogo = layoutTitleCard('Hello', landscape, AspectRatio.Landscape, { ...DEFAULT_TITLE_CARD, align: 'center' }, measure, true);
+
+    expect(plain.x).toBe(512);
+    expect(plain.textAlign).toBe('center');
+    expect(withLogo.logoBox).toEqual({ x: 82, y: 69, height: 52 });
+    expect(withLogo.firstBaseline).toBeGreaterThan(plain.firstBaseline);
+  });
+});
+
+describe('renderTitleCard', () => {
+  const settings: ImageSettings = {
+    format: ImageFormat.PNG,
+    quality: 100,
+    aspectRatio: AspectRatio.Landscape,
+    imageSize: ImageSize.K1,
+    style: '',
+    negativePrompt: '',
+    titleCard: { ...DEFAULT_TITLE_CARD, textColor: '#111111' },
+  };
+
+  // Records what the renderer draws; measureText follows the same 0.6em rule as the layout tests
+  const stubCanvas = () => {
+    const ctx = {
+      font: '',
+      fillStyle: '' as unknown,
+      textAlign: 'start',
+      textBaseline: 'alphabetic',
+      measureText: vi.fn((text: string) => ({ width: measure(text, ctx.font) })),
+      createLinearGradient: vi.fn(() => ({ addColorStop: vi.fn() })),
+      fillRect: vi.fn(),
+      fillText: vi.fn(),
+      drawImage: vi.fn(),
+    };
+    const canvas = { getContext: () => ctx, convertToBlob: vi.fn(async () => new Blob(['png'], { type: 'image/png' })) };
+    const factory = vi.fn(() => canvas) as unknown as CanvasFactory;
+    return { ctx, canvas, factory };
+  };
+
+  it('paints the gradient and draws each laid-out line at its baseline', async () => {
+    const { ctx, canvas, factory } = stubCanvas();
+
+    const blob = await renderTitleCard('Hello title card', settings, {}, factory);
+
+    expect(factory).toHaveBeenCalledWith(1024, 576);
+    expect(ctx.createLinearGradient).toHaveBeenCalledWith(0, 0, 1024, 576);
+    expect(ctx.fillRect).toHaveBeenCalledWith(0, 0, 1024, 576);
+    const layout = layoutTitleCard('Hello title card', { width: 1024, height: 576 }, AspectRatio.Landscape, settings.titleCard!, measure);
+    expect(ctx.fillText.mock.calls).toEqual(layout.lines.map((line, i) => [line, layout.x, layout.firstBaseline + i * layout.lineHeight]));
+    expect(ctx.fillStyle).toBe('#111111');
+    expect(canvas.convertToBlob).toHaveBeenCalledWith({ type: 'image/png' });
+    expect(blob.type).toBe('image/png');
+  });
+});
@@ -0,0 +1,253 @@
+// services/providers/titleCard.ts - Branded title-card images rendered locally on a canvas (no network by default)
+
+import { AIProvider, AspectRatio, ImageFormat, ImageProvider, ImageSettings, ImageSize, TitleCardSettings } from '../../types';
+import { ValidationError } from '../errors';
+import { getTargetDimensions, ImageDimensions } from '../imageProcessingService';
+import { pollinationsImageProvider } from './pollinations';
+import { blobToDataUrl } from './shared';
+
+export const DEFAULT_TITLE_CARD: TitleCardSettings = {
+  fontFamily: 'Inter, "Helvetica Neue", Arial, sans-serif',
+  fontWeight: 800,
+  textColor: '#ffffff',
+  backgroundFrom: '#4f46e5',
+  backgroundTo: '#db2777',
+  background: 'gradient',
+  align: 'left',
+};
+
+// Safe margins as a fraction of width (x) and height (y); tall formats lose more to platform UI at top and bottom
+const SAFE_MARGINS: Record<AspectRatio, { x: number; y: number; maxLines: number }> = {
+  [AspectRatio.Landscape]: { x: 0.08, y: 0.12, maxLines: 4 },
+  [AspectRatio.Square]: { x: 0.1, y: 0.1, maxLines: 5 },
+  [AspectRatio.Portrait]: { x: 0.1, y: 0.16, maxLines: 7 },
+};
+
+const LINE_HEIGHT = 1.15;
+const LOGO_HEIGHT_RATIO = 0.09;
+// Darkens AI backgrounds so the title keeps its contrast regardless of what the model painted
+const BACKGROUND_SCRIM = 'rgba(0, 0, 0, 0.45)';
+
+export type TextMeasurer = (text: string, font: string) => number;
+export type CanvasFactory = (width: number, height: number) => OffscreenCanvas | HTMLCanvasElement;
+
+export interface TitleCardLayout {
+  font: string;
+  fontSize: number;
+  lineHeight: number;
+  lines: string[];
+  x: number;
+  firstBaseline: number;
+  textAlign: CanvasTextAlign;
+  logoBox?: { x: number; y: number; height: number };
+}
+
+// Titles arrive as rendered HTML (&#8217;, &amp;, inline tags); decoded without a DOM so layout runs headlessly
+export const decodeTitle = (html: string): string =>
+  html
+    .replace(/<[^>]*>/g, '')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const wrapWords = (words: string[], maxWidth: number, font: string, measure: TextMeasurer): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of words) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && measure(candidate, font) > maxWidth) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+};
+
+const fontFor = (style: TitleCardSettings, size: number): string =>
+  `${style.fontWeight ?? DEFAULT_TITLE_CARD.fontWeight} ${size}px ${style.fontFamily || DEFAULT_TITLE_CARD.fontFamily}`;
+
+// Pure: picks the largest font whose wrapped lines fit the safe box, so it can be unit-tested with a fake measurer
+export const layoutTitleCard = (
+  title: string,
+  dimensions: ImageDimensions,
+  aspectRatio: AspectRatio,
+  style: TitleCardSettings,
+  measure: TextMeasurer,
+  hasLogo = false
+): TitleCardLayout => {
+  const { width, height } = dimensions;
+  const margins = SAFE_MARGINS[aspectRatio] || SAFE_MARGINS[AspectRatio.Landscape];
+  const marginX = Math.round(width * margins.x);
+  const marginY = Math.round(height * margins.y);
+
+  const logoHeight = hasLogo ? Math.round(height * LOGO_HEIGHT_RATIO) : 0;
+  const logoGap = hasLogo ? Math.round(logoHeight * 0.5) : 0;
+  const boxTop = marginY + logoHeight + logoGap;
+  const boxWidth = width - marginX * 2;
+  const boxHeight = height - boxTop - marginY;
+
+  const words = title.split(' ').filter(Boolean);
+  const shortEdge = Math.min(width, height);
+  const maxSize = Math.round(shortEdge * 0.16);
+  const minSize = Math.max(16, Math.round(shortEdge * 0.04));
+
+  let fontSize = maxSize;
+  let lines = wrapWords(words, boxWidth, fontFor(style, fontSize), measure);
+  while (fontSize > minSize) {
+    const fits = lines.length <= margins.maxLines
+      && lines.length * fontSize * LINE_HEIGHT <= boxHeight
+      && lines.every(line => measure(line, fontFor(style, fontSize)) <= boxWidth);
+    if (fits) break;
+    fontSize = Math.max(minSize, fontSize - 2);
+    lines = wrapWords(words, boxWidth, fontFor(style, fontSize), measure);
+  }
+
+  // Still too long at the minimum size: keep what fits and mark the cut
+  const maxLines = Math.max(1, Math.min(margins.maxLines, Math.floor(boxHeight / (fontSize * LINE_HEIGHT))));
+  if (lines.length > maxLines) {
+    lines = lines.slice(0, maxLines);
+    lines[maxLines - 1] = `${lines[maxLines - 1].replace(/[\s.,;:!?-]+$/, '')}…`;
+  }
+
+  const lineHeight = Math.round(fontSize * LINE_HEIGHT);
+  const blockHeight = lines.length * lineHeight;
+  const textAlign: CanvasTextAlign = style.align === 'center' ? 'center' : 'left';
+
+  return {
+    font: fontFor(style, fontSize),
+    fontSize,
+    lineHeight,
+    lines,
+    x: textAlign === 'center' ? width / 2 : marginX,
+    // Vertically centred in the box; baseline sits roughly 0.8em below each line's top
+    firstBaseline: Math.round(boxTop + (boxHeight - blockHeight) / 2 + fontSize * 0.8 + (lineHeight - fontSize) / 2),
+    textAlign,
+    ...(hasLogo ? { logoBox: { x: marginX, y: marginY, height: logoHeight } } : {}),
+  };
+};
+
+const defaultCanvasFactory: CanvasFactory = (width, height) => {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const canvasToBlob = (canvas: OffscreenCanvas | HTMLCanvasElement): Promise<Blob> =>
+  'convertToBlob' in canvas
+    ? canvas.convertToBlob({ type: 'image/png' })
+    : new Promise((resolve, reject) => canvas.toBlob(b => (b ? resolve(b) : reject(new Error('Canvas encoding failed'))), 'image/png'));
+
+const loadBitmap = async (url: string, signal?: AbortSignal): Promise<ImageBitmap> => {
+  const response = await fetch(url, { signal });
+  if (!response.ok) throw new ValidationError(`Could not load title card asset: ${response.status}`, 'logoUrl');
+  return createImageBitmap(await response.blob());
+};
+
+export interface TitleCardAssets {
+  background?: ImageBitmap;
+  logo?: ImageBitmap;
+}
+
+export const renderTitleCard = async (
+  title: string,
+  settings: ImageSettings,
+  assets: TitleCardAssets = {},
+  createCanvas: CanvasFactory = defaultCanvasFactory
+): Promise<Blob> => {
+  const style = { ...DEFAULT_TITLE_CARD, ...settings.titleCard };
+  const dimensions = getTargetDimensions(settings.aspectRatio, settings.imageSize, settings.maxUploadWidth);
+  const canvas = createCanvas(dimensions.width, dimensions.height);
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  const { width, height } = dimensions;
+  if (assets.background) {
+    const bg = assets.background;
+    const scale = Math.max(width / bg.width, height / bg.height);
+    ctx.drawImage(bg, (width - bg.width * scale) / 2, (height - bg.height * scale) / 2, bg.width * scale, bg.height * scale);
+    ctx.fillStyle = BACKGROUND_SCRIM;
+    ctx.fillRect(0, 0, width, height);
+  } else {
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, style.backgroundFrom);
+    gradient.addColorStop(1, style.backgroundTo);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  const measure: TextMeasurer = (text, font) => {
+    ctx.font = font;
+    return ctx.measureText(text).width;
+  };
+  const layout = layoutTitleCard(title, dimensions, settings.aspectRatio, style, measure, !!assets.logo);
+
+  if (assets.logo && layout.logoBox) {
+    const { x, y, height: logoHeight } = layout.logoBox;
+    const logoWidth = (assets.logo.width / assets.logo.height) * logoHeight;
+    ctx.drawImage(assets.logo, layout.textAlign === 'center' ? (width - logoWidth) / 2 : x, y, logoWidth, logoHeight);
+  }
+
+  ctx.font = layout.font;
+  ctx.fillStyle = style.textColor;
+  ctx.textAlign = layout.textAlign;
+  ctx.textBaseline = 'alphabetic';
+  layout.lines.forEach((line, i) => ctx.fillText(line, layout.x, layout.firstBaseline + i * layout.lineHeight));
+
+  return canvasToBlob(canvas);
+};
+
+export const titleCardImageProvider: ImageProvider = {
+  id: AIProvider.TitleCard,
+  capabilities: { negativePrompt: false, requiresApiKey: false, seed: false, rendersTitle: true },
+
+  // The prompt is the post title; only an AI background or a remote logo touches the network
+  async generate(config, prompt, settings, signal) {
+    const title = decodeTitle(prompt);
+    if (!title) throw new ValidationError('Title card needs a post title', 'title');
+    const style = { ...DEFAULT_TITLE_CARD, ...settings.titleCard };
+
+    const assets: TitleCardAssets = {};
+    if (style.logoUrl) assets.logo = await loadBitmap(style.logoUrl, signal);
+    if (style.background === 'ai') {
+      const backgroundPrompt = `Abstract editorial background evoking "${title}". ${settings.style}. No text, no letters.`;
+      const { dataUrl } = await pollinationsImageProvider.generate({ provider: AIProvider.Pollinations }, backgroundPrompt, settings, signal);
+      assets.background = await loadBitmap(dataUrl, signal);
+    }
+
+    try {
+      return { dataUrl: await blobToDataUrl(await renderTitleCard(title, settings, assets)), provider: AIProvider.TitleCard };
+    } finally {
+      assets.logo?.close();
+      assets.background?.close();
+    }
+  },
+
+  async test() {
+    try {
+      const settings: ImageSettings = {
+        format: ImageFormat.PNG,
+        quality: 100,
+        aspectRatio: AspectRatio.Square,
+        imageSize: ImageSize.K1,
+        style: '',
+        negativePrompt: '',
+        maxUploadWidth: 64,
+      };
+      await renderTitleCard('Test', settings);
+      return { success: true, message: 'Title cards render locally' };
+    } catch (e) {
+      return { success: false, message: `Canvas rendering unavailable: ${(e as Error).message}` };
+    }
+  },
+};
@@ -0,0 +1,175 @@
+// services/schemaService.ts - JSON-LD structured data: build, validate, and embed in post content
+
+import { WordPressPost, SEOContext } from '../types';
+
+export type ArticleSchemaType = 'Article' | 'BlogPosting';
+
+type SchemaNode = Record<string, unknown> & { '@type': string };
+
+export interface SchemaValidationIssue {
+  type: string;
+  property: string;
+  message: string;
+}
+
+// Properties schema.org consumers (Google rich results) refuse to read a node without
+const REQUIRED_PROPERTIES: Record<string, string[]> = {
+  Article: ['headline', 'datePublished', 'author'],
+  BlogPosting: ['headline', 'datePublished', 'author'],
+  FAQPage: ['mainEntity'],
+  Question: ['name', 'acceptedAnswer'],
+  Answer: ['text'],
+  ImageObject: ['contentUrl'],
+};
+
+const HEADLINE_MAX_LENGTH = 110;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+// Marker that identifies the block we own, so re-runs replace it and removal never touches other scripts
+const SCHEMA_MARKER = 'data-ai-image-engine="schema"';
+const SCHEMA_BLOCK_PATTERN = new RegExp(
+  `\\n*(?:<!-- wp:html -->\\s*)?<script type="application/ld\\+json" ${SCHEMA_MARKER}>([\\s\\S]*?)</script>(?:\\s*<!-- /wp:html -->)?`,
+  'g'
+);
+
+const stripHtml = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return (doc.body.textContent || "").trim();
+};
+
+// ============ BUILD ============
+
+const buildImageNode = (post: WordPressPost, pageUrl: string): SchemaNode | undefined => {
+  const url = post.generatedImage?.url || post.existingImageUrl;
+  if (!url) return undefined;
+  return {
+    '@type': 'ImageObject',
+    '@id': `${pageUrl}#primaryimage`,
+    url,
+    contentUrl: url,
+    ...(post.generatedImage?.alt || post.existingImageAltText
+      ? { description: post.generatedImage?.alt || post.existingImageAltText }
+      : {}),
+    ...(post.generatedImage?.caption ? { caption: post.generatedImage.caption } : {}),
+  };
+};
+
+const buildFaqNode = (post: WordPressPost, pageUrl: string): SchemaNode | undefined => {
+  const pairs = (post.aeo?.qaPairs || []).filter(qa => qa.question?.trim() && qa.answer?.trim());
+  if (pairs.length === 0) return undefined;
+  return {
+    '@type': 'FAQPage',
+    '@id': `${pageUrl}#faq`,
+    mainEntity: pairs.map(qa => ({
+      '@type': 'Question',
+      name: qa.question.trim(),
+      acceptedAnswer: { '@type': 'Answer', text: qa.answer.trim() },
+    })),
+  };
+};
+
+export const buildPostSchema = (
+  post: WordPressPost,
+  seo: SEOContext,
+  articleType: ArticleSchemaType = 'BlogPosting'
+): { '@context': string; '@graph': SchemaNode[] } => {
+  const pageUrl = post.link;
+  const headline = stripHtml(post.title.rendered);
+  const description = stripHtml(post.excerpt.rendered);
+  const image = buildImageNode(post, pageUrl);
+  const faq = buildFaqNode(post, pageUrl);
+  const siteUrl = new URL(pageUrl).origin;
+
+  const article: SchemaNode = {
+    '@type': articleType,
+    '@id': `${pageUrl}#article`,
+    headline: headline.length > HEADLINE_MAX_LENGTH ? `${headline.slice(0, HEADLINE_MAX_LENGTH - 1)}…` : headline,
+    url: pageUrl,
+    mainEntityOfPage: { '@type': 'WebPage', '@id': pageUrl },
+    datePublished: post.date,
+    dateModified: post.modified || post.date,
+    // Without an embedded author the site stands in as the accountable organization
+    author: post.authorName
+      ? { '@type': 'Person', name: post.authorName }
+      : { '@type': 'Organization', name: new URL(pageUrl).hostname, url: siteUrl },
+    publisher: { '@type': 'Organization', name: new URL(pageUrl).hostname, url: siteUrl },
+    ...(description ? { description } : {}),
+    ...(image ? { image: { '@id': image['@id'] } } : {}),
+    ...(seo.primaryKeywords ? { keywords: seo.primaryKeywords } : {}),
+    ...(post.wordCount ? { wordCount: post.wordCount } : {}),
+  };
+
+  return {
+    '@context': 'https://schema.org',
+    '@graph': [article, image, faq].filter((node): node is SchemaNode => !!node),
+  };
+};
+
+// ============ VALIDATE ============
+
+const isMissing = (value: unknown): boolean =>
+  value === undefined || value === null || (typeof value === 'string' && !value.trim()) || (Array.isArray(value) && value.length === 0);
+
+const validateNode = (node: SchemaNode, issues: SchemaValidationIssue[]): void => {
+  const type = node['@type'];
+  for (const property of REQUIRED_PROPERTIES[type] || []) {
+    if (isMissing(node[property])) {
+      issues.push({ type, property, message: `${type} is missing required property "${property}"` });
+    }
+  }
+
+  for (const property of ['datePublished', 'dateModified']) {
+    const value = node[property];
+    if (typeof value === 'string' && !ISO_DATE.test(value)) {
+      issues.push({ type, property, message: `${type}.${property} is not an ISO 8601 date: ${value}` });
+    }
+  }
+  if (typeof node.headline === 'string' && node.headline.length > HEADLINE_MAX_LENGTH) {
+    issues.push({ type, property: 'headline', message: `${type}.headline exceeds ${HEADLINE_MAX_LENGTH} characters` });
+  }
+
+  // Recurse into nested typed nodes (Question → Answer, etc.)
+  for (const value of Object.values(node)) {
+    const children = Array.isArray(value) ? value : [value];
+    for (const child of children) {
+      if (child && typeof child === 'object' && typeof (child as SchemaNode)['@type'] === 'string') {
+        validateNode(child as SchemaNode, issues);
+      }
+    }
+  }
+};
+
+export const validateSchema = (schema: { '@graph': SchemaNode[] }): SchemaValidationIssue[] => {
+  const issues: SchemaValidationIssue[] = [];
+  schema['@graph'].forEach(node => validateNode(node, issues));
+  return issues;
+};
+
+// ============ CONTENT BLOCK ============
+
+// "</" inside a string would close the script element early
+const serializeForScript = (jsonLd: string): string => jsonLd.replace(/<\//g, '<\\/');
+
+export const buildSchemaBlock = (jsonLd: string): string =>
+  `<!-- wp:html -->\n<script type="application/ld+json" ${SCHEMA_MARKER}>${serializeForScript(jsonLd)}</script>\n<!-- /wp:html -->`;
+
+export const extractSchemaBlock = (content: string): string | undefined => {
+  const match = new RegExp(SCHEMA_BLOCK_PATTERN.source).exec(content);
+  return match ? match[1].replace(/<\\\//g, '</') : undefined;
+};
+
+export const removeSchemaBlock = (content: string): string =>
+  content.replace(SCHEMA_BLOCK_PATTERN, '');
+
+// Replaces any previous block so repeated runs leave exactly one copy at the end of the post
+export const upsertSchemaBlock = (content: string, jsonLd: string): string =>
+  `${removeSchemaBlock(content)}\n\n${buildSchemaBlock(jsonLd)}`;
+
+export default {
+  buildPostSchema,
+  validateSchema,
+  buildSchemaBlock,
+  extractSchemaBlock,
+  removeSchemaBlock,
+  upsertSchemaBlock,
+};
@@ -0,0 +1,70 @@
+// services/tldrService.ts - Key-takeaways (TL;DR) Gutenberg block: build, find, and replace in post content
+
+import { Block, BlockPath, ContentMode, insertBlockAfter, parseBlocks, parseContent, serializeBlocks, walkBlocks } from './blockService';
+
+export const TLDR_CLASS_NAME = 'ai-image-engine-tldr';
+export const DEFAULT_TLDR_HEADING = 'Key Takeaways';
+
+// Our group block is identified by its className; the lazy body stops at the first closing group, and we never nest one
+const TLDR_BLOCK_PATTERN = new RegExp(
+  `\\n*<!-- wp:group \\{[^}]*"className":"${TLDR_CLASS_NAME}"[\\s\\S]*?<!-- /wp:group -->\\n*`,
+  'g'
+);
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const buildTldrBlock = (bullets: string[], heading: string = DEFAULT_TLDR_HEADING): string => {
+  const items = bullets
+    .map(b => b.trim())
+    .filter(Boolean)
+    .map(b => `<!-- wp:list-item -->\n<li>${escapeHtml(b)}</li>\n<!-- /wp:list-item -->`)
+    .join('\n\n');
+
+  return `<!-- wp:group {"className":"${TLDR_CLASS_NAME}","layout":{"type":"constrained"}} -->
+<div class="wp-block-group ${TLDR_CLASS_NAME}"><!-- wp:heading {"level":3} -->
+<h3 class="wp-block-heading">${escapeHtml(heading)}</h3>
+<!-- /wp:heading -->
+
+<!-- wp:list -->
+<ul class="wp-block-list">${items}</ul>
+<!-- /wp:list --></div>
+<!-- /wp:group -->`;
+};
+
+// Recovers the bullets from a previously inserted block so re-opening the editor starts from what is live
+export const extractTldrBullets = (content: string): string[] | undefined => {
+  const match = new RegExp(TLDR_BLOCK_PATTERN.source).exec(content);
+  if (!match) return undefined;
+  const doc = new DOMParser().parseFromString(match[0], 'text/html');
+  return Array.from(doc.querySelectorAll('li')).map(li => (li.textContent || '').trim()).filter(Boolean);
+};
+
+export const removeTldrBlock = (content: string): string =>
+  content.replace(TLDR_BLOCK_PATTERN, '\n\n').replace(/^\n+/, '');
+
+// Classic chunks count as paragraphs when they are a <p> or bare text that wpautop will wrap in one
+const isParagraph = (block: Block, mode: ContentMode): boolean =>
+  mode === 'blocks' ? block.blockName === 'core/paragraph' : /^\s*(?:<p[\s>]|[^<\s])/i.test(block.innerHTML);
+
+// Placed after the opening paragraph so the intro still leads; falls back to the very top. Only top-level
+// paragraphs qualify: one inside columns, a group or a quote would pull the TL;DR into that block.
+export const upsertTldrBlock = (content: string, bullets: string[], heading?: string): string => {
+  const base = removeTldrBlock(content);
+  const block = buildTldrBlock(bullets, heading);
+
+  const parsed = parseContent(base);
+  const anchors: BlockPath[] = [];
+  walkBlocks(parsed.blocks, (candidate, path) => {
+    if (path.length === 1 && isParagraph(candidate, parsed.mode)) anchors.push(path);
+  });
+  const next = anchors.length > 0 ? insertBlockAfter(parsed.blocks, anchors[0], parseBlocks(block)[0]) : null;
+  return next ? serializeBlocks(next) : `${block}\n\n${base}`;
+};
+
+export default {
+  buildTldrBlock,
+  extractTldrBullets,
+  removeTldrBlock,
+  upsertTldrBlock,
+};
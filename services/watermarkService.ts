@@ -0,0 +1,83 @@
+// services/watermarkService.ts - Logo overlay stage applied after resizing, before encoding
+
+import { AspectRatio, ImageSettings, WatermarkPlacement, WatermarkSettings, WordPressPost } from '../types';
+import { ValidationError } from './errors';
+
+export const DEFAULT_WATERMARK: WatermarkSettings = {
+  enabled: false,
+  logoDataUrl: '',
+  opacity: 0.85,
+  placements: {
+    [AspectRatio.Landscape]: { position: 'bottom-right', scale: 0.12, padding: 0.025 },
+    [AspectRatio.Square]: { position: 'bottom-right', scale: 0.16, padding: 0.035 },
+    [AspectRatio.Portrait]: { position: 'bottom-right', scale: 0.24, padding: 0.045 },
+  },
+};
+
+export interface WatermarkBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const getWatermarkPlacement = (settings: WatermarkSettings, aspectRatio: AspectRatio): WatermarkPlacement =>
+  settings.placements?.[aspectRatio] || DEFAULT_WATERMARK.placements[aspectRatio] || DEFAULT_WATERMARK.placements[AspectRatio.Landscape];
+
+// scale and padding are fractions of the image width, so one setting holds across ImageSize
+export const computeWatermarkBox = (
+  imageWidth: number,
+  imageHeight: number,
+  logoWidth: number,
+  logoHeight: number,
+  placement: WatermarkPlacement
+): WatermarkBox => {
+  const width = Math.max(1, Math.round(imageWidth * placement.scale));
+  const height = Math.max(1, Math.round((logoHeight / logoWidth) * width));
+  const padding = Math.round(imageWidth * placement.padding);
+  const [vertical, horizontal] = placement.position === 'center' ? ['center', 'center'] : placement.position.split('-');
+
+  const x = horizontal === 'left' ? padding : horizontal === 'right' ? imageWidth - width - padding : (imageWidth - width) / 2;
+  const y = vertical === 'top' ? padding : vertical === 'bottom' ? imageHeight - height - padding : (imageHeight - height) / 2;
+  return { x: Math.round(x), y: Math.round(y), width, height };
+};
+
+export const drawWatermark = (
+  ctx: CanvasRenderingContext2D,
+  logo: ImageBitmap | HTMLImageElement,
+  imageWidth: number,
+  imageHeight: number,
+  placement: WatermarkPlacement,
+  opacity: number
+): void => {
+  const box = computeWatermarkBox(imageWidth, imageHeight, logo.width, logo.height, placement);
+  ctx.save();
+  ctx.globalAlpha = Math.min(1, Math.max(0, opacity));
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(logo, box.x, box.y, box.width, box.height);
+  ctx.restore();
+};
+
+export const loadWatermarkLogo = async (logoDataUrl: string): Promise<ImageBitmap> => {
+  const blob = await (await fetch(logoDataUrl)).blob();
+  try {
+    return await createImageBitmap(blob);
+  } catch {
+    throw new ValidationError('Watermark logo could not be decoded', 'logoDataUrl');
+  }
+};
+
+// Stamped outputs keep their un-stamped source (ProcessedImage.unstampedDataUrl), so derivatives are cut from that
+// and stamped afresh rather than fed back through here
+export const shouldWatermark = (settings: ImageSettings, post?: Pick<WordPressPost, 'skipWatermark'>): boolean =>
+  !!settings.watermark?.enabled
+  && !!settings.watermark.logoDataUrl
+  && !post?.skipWatermark;
+
+export default {
+  getWatermarkPlacement,
+  computeWatermarkBox,
+  drawWatermark,
+  loadWatermarkLogo,
+  shouldWatermark,
+};
@@ -1,21 +1,29 @@
 
-import { WordPressPost, MediaUploadResult, WordPressCredentials, InsertionPoint, ContentImage } from '../types';
+import { WordPressPost, MediaUploadResult, WordPressCredentials, InsertionPoint, ContentImage, SeoPlugin, SocialImage, MetadataSettings, ImageProvenance, ImagePlaceholder, PostTypeInfo, CrawlScope, SiteTaxonomies, TaxonomyTerm, WordPressPostStatus, OperationEntry, OperationKind, OperationSnapshot } from '../types';
 import { fetchWithRetry } from './retry';
 import { cachedFetch, generateCacheKey } from './cache';
-import { APIError, AuthenticationError } from './errors';
+import { APIError, AuthenticationError, ConflictError, ValidationError } from './errors';
+import { extractSchemaBlock, removeSchemaBlock, upsertSchemaBlock } from './schemaService';
+import { extractTldrBullets, removeTldrBlock, upsertTldrBlock } from './tldrService';
+import { buildPlacementPlan, IMAGE_GAP_WORDS, resolveInsertionPath } from './placementService';
+import { insertImage, parseContent, removeImage, replaceImage, serializeContent } from './blockService';
+import { createOperationId, listBatchOperations, listPostOperations, saveOperation, updateOperation } from './journalService';
+import { normalizeSiteUrl } from './postStore';
+import { buildManifestSidecar, embedMetadata, ImageMetadata } from './metadataService';
 
 const createAuthHeader = (username: string, appPassword?: string): string | null => {
   if (!username || !appPassword) return null;
   return `Basic ${btoa(`${username}:${appPassword}`)}`;
 };
 
-const buildApiUrl = (baseUrl: string, endpoint: string): string => {
-  return `${baseUrl.replace(/\/$/, '')}/wp-json/wp/v2${endpoint}`;
+const buildApiUrl = (baseUrl: string, endpoint: string, namespace = 'wp/v2'): string => {
+  return `${baseUrl.replace(/\/$/, '')}/wp-json${namespace ? `/${namespace}` : ''}${endpoint}`;
 };
 
 interface WPFetchOptions extends RequestInit {
   timeout?: number;
   skipCache?: boolean;
+  namespace?: string; // REST namespace, '' for the index; defaults to core wp/v2
 }
 
 const wpFetch = async <T = unknown>(
@@ -25,14 +33,14 @@ const wpFetch = async <T = unknown>(
   appPassword?: string,
   options: WPFetchOptions = {}
 ): Promise<{ data: T; headers: Headers }> => {
-  const url = buildApiUrl(baseUrl, endpoint);
+  const url = buildApiUrl(baseUrl, endpoint, options.namespace);
   const headers = new Headers(options.headers || {});
   
   const authHeader = createAuthHeader(username, appPassword);
   if (authHeader) headers.set('Authorization', authHeader);
   if (options.body && !(options.body instanceof FormData)) headers.set('Content-Type', 'application/json');
 
-  const { timeout = 60000, skipCache, ...fetchOptions } = options;
+  const { timeout = 60000, skipCache, namespace, ...fetchOptions } = options;
 
   try {
     const response = await fetchWithRetry(url, { ...fetchOptions, headers }, { maxRetries: 3 }, timeout);
@@ -44,21 +52,103 @@ const wpFetch = async <T = unknown>(
   }
 };
 
-export const getTotalPosts = async (url: string, user: string, pass?: string, signal?: AbortSignal): Promise<number> => {
-  const cacheKey = generateCacheKey('totalPosts', { url, user });
+// ============ POST TYPES ============
+
+export const DEFAULT_POST_TYPE: PostTypeInfo = { slug: 'post', name: 'Posts', restBase: 'posts', taxonomies: ['category', 'post_tag'] };
+
+// Core types with no editorial content of their own, even where they are viewable
+const NON_CONTENT_TYPES = new Set(['attachment', 'nav_menu_item', 'wp_block', 'wp_template', 'wp_template_part', 'wp_navigation', 'wp_global_styles', 'wp_font_family', 'wp_font_face']);
+
+export type PostRef = Pick<WordPressPost, 'id' | 'restBase'>;
+
+const postPath = (post: PostRef): string => `/${post.restBase || DEFAULT_POST_TYPE.restBase}/${post.id}`;
+
+// Only types served under wp/v2 are listed, since every post route here goes through that namespace
+export const fetchPostTypes = async (url: string, user: string, pass?: string, signal?: AbortSignal): Promise<PostTypeInfo[]> => {
+  const cacheKey = generateCacheKey('postTypes', { url, user });
+  return cachedFetch(cacheKey, async () => {
+    const { data } = await wpFetch<Record<string, { slug: string; name: string; rest_base?: string; rest_namespace?: string; viewable?: boolean; taxonomies?: string[] }>>(
+      url, '/types?context=edit', user, pass, { signal }
+    );
+    return Object.values(data)
+      .filter(t => t.rest_base && (t.rest_namespace || 'wp/v2') === 'wp/v2' && t.viewable !== false && !NON_CONTENT_TYPES.has(t.slug))
+      .map(t => ({ slug: t.slug, name: t.name, restBase: t.rest_base as string, taxonomies: t.taxonomies || [] }));
+  }, 10 * 60 * 1000);
+};
+
+// ============ TAXONOMIES ============
+
+const TERM_PAGE_SIZE = 100;
+
+// Term names come back HTML-escaped ("News &amp; Events")
+const decodeEntities = (text: string): string =>
+  new DOMParser().parseFromString(text, 'text/html').documentElement.textContent || text;
+
+const fetchAllTerms = async (url: string, user: string, pass: string | undefined, endpoint: string, signal?: AbortSignal): Promise<TaxonomyTerm[]> => {
+  const page = (n: number) => `${endpoint}${endpoint.includes('?') ? '&' : '?'}per_page=${TERM_PAGE_SIZE}&page=${n}`;
+  const { data, headers } = await wpFetch<TaxonomyTerm[]>(url, page(1), user, pass, { signal });
+  const totalPages = parseInt(headers.get('X-WP-TotalPages') || '1', 10);
+  const terms = [...data];
+  for (let n = 2; n <= totalPages; n++) {
+    const { data: more } = await wpFetch<TaxonomyTerm[]>(url, page(n), user, pass, { signal });
+    terms.push(...more);
+  }
+  return terms.map(t => ({ id: t.id, name: decodeEntities(t.name), ...(t.count !== undefined ? { count: t.count } : {}) }));
+};
+
+// Each list is best-effort: a site that hides its users still gets category and tag filters
+export const fetchSiteTaxonomies = async (url: string, user: string, pass?: string, signal?: AbortSignal): Promise<SiteTaxonomies> => {
+  const cacheKey = generateCacheKey('taxonomies', { url, user });
+  return cachedFetch(cacheKey, async () => {
+    const safely = (endpoint: string) => fetchAllTerms(url, user, pass, endpoint, signal).catch((error) => {
+      if (signal?.aborted) throw error;
+      console.warn(`Could not load ${endpoint}:`, error);
+      return [] as TaxonomyTerm[];
+    });
+    const [categories, tags, authors] = await Promise.all([
+      safely('/categories?_fields=id,name,count&hide_empty=true'),
+      safely('/tags?_fields=id,name,count&hide_empty=true'),
+      safely('/users?_fields=id,name&has_published_posts=true'),
+    ]);
+    return { categories, tags, authors };
+  }, 10 * 60 * 1000);
+};
+
+// Term restrictions are skipped for types without that taxonomy, so picking a category never hides pages
+export const buildCrawlFilters = (postType: PostTypeInfo, scope?: CrawlScope): PostQueryFilters => {
+  const filters: PostQueryFilters = {};
+  const taxonomies = postType.taxonomies || [];
+  if (scope?.statuses?.length) filters.status = scope.statuses.join(',');
+  if (scope?.categories?.length && taxonomies.includes('category')) filters.categories = scope.categories.join(',');
+  if (scope?.tags?.length && taxonomies.includes('post_tag')) filters.tags = scope.tags.join(',');
+  return filters;
+};
+
+export const getTotalPosts = async (
+  url: string,
+  user: string,
+  pass?: string,
+  signal?: AbortSignal,
+  restBase = DEFAULT_POST_TYPE.restBase,
+  filters: PostQueryFilters = {}
+): Promise<number> => {
+  const cacheKey = generateCacheKey('totalPosts', { url, user, restBase, filters });
   return cachedFetch(cacheKey, async () => {
-    const { headers } = await wpFetch<unknown[]>(url, '/posts?per_page=1', user, pass, { signal });
+    const params = new URLSearchParams({ ...filters, per_page: '1' });
+    const { headers } = await wpFetch<unknown[]>(url, `/${restBase}?${params.toString()}`, user, pass, { signal });
     return parseInt(headers.get('X-WP-Total') || '0', 10);
   }, 60000);
 };
 
-const parsePost = (post: Record<string, unknown>): WordPressPost => {
+const parsePost = (post: Record<string, unknown>, postType: PostTypeInfo = DEFAULT_POST_TYPE): WordPressPost => {
   const content = (post.content as { rendered: string, raw?: string })?.rendered || '';
   // Optimization: Don't parse full DOM here, defer to analysis phase
   const wordCount = content.split(/\s+/).length; 
   
   return {
     id: post.id as number,
+    type: (post.type as string) || postType.slug,
+    restBase: postType.restBase,
     title: post.title as { rendered: string },
     link: post.link as string,
     excerpt: post.excerpt as { rendered: string },
@@ -69,17 +159,41 @@ const parsePost = (post: Record<string, unknown>): WordPressPost => {
     date: post.date as string,
     modified: post.modified as string,
     featured_media: post.featured_media as number,
+    authorName: (post._embedded as any)?.author?.[0]?.name,
+    author: post.author as number,
+    categories: post.categories as number[] | undefined,
+    tags: post.tags as number[] | undefined,
+    postStatus: post.status as WordPressPostStatus,
     imageCount: 0, // Calculated later
     wordCount,
     paragraphCount: 0, // Calculated later
     existingImageUrl: (post._embedded as any)?.['wp:featuredmedia']?.[0]?.source_url,
+    generatedSchema: extractSchemaBlock((post.content as any)?.raw || content),
+    tldr: extractTldrBullets((post.content as any)?.raw || content),
     status: 'idle',
   };
 };
 
-export const fetchPostsPage = async (url: string, user: string, pass: string | undefined, page: number, perPage: number, signal?: AbortSignal): Promise<WordPressPost[]> => {
-  const { data } = await wpFetch<Record<string, unknown>[]>(url, `/posts?per_page=${perPage}&page=${page}&_embed=wp:featuredmedia&context=edit`, user, pass, { signal });
-  return data.map(parsePost);
+// Extra collection arguments (modified_after, include, ...) ride along on every page of a crawl
+export type PostQueryFilters = Record<string, string>;
+
+const buildPostsEndpoint = (postType: PostTypeInfo, perPage: number, page: number, filters: PostQueryFilters): string => {
+  const params = new URLSearchParams({ ...filters, per_page: String(perPage), page: String(page), _embed: 'wp:featuredmedia,author', context: 'edit' });
+  return `/${postType.restBase}?${params.toString()}`;
+};
+
+export const fetchPostsPage = async (
+  url: string,
+  user: string,
+  pass: string | undefined,
+  page: number,
+  perPage: number,
+  signal?: AbortSignal,
+  postType: PostTypeInfo = DEFAULT_POST_TYPE,
+  filters: PostQueryFilters = {}
+): Promise<WordPressPost[]> => {
+  const { data } = await wpFetch<Record<string, unknown>[]>(url, buildPostsEndpoint(postType, perPage, page, filters), user, pass, { signal });
+  return data.map(p => parsePost(p, postType));
 };
 
 // SOTA Upgrade: Auto-Calibrating Parallel Fetcher
@@ -91,7 +205,9 @@ export const fetchAllPostsParallel = async (
   perPage = 20, // Lower default to prevent timeouts
   onProgress?: (loaded: number, total: number) => void,
   signal?: AbortSignal,
-  concurrency = 3 // Lower default concurrency
+  concurrency = 3, // Lower default concurrency
+  postType: PostTypeInfo = DEFAULT_POST_TYPE,
+  filters: PostQueryFilters = {}
 ): Promise<WordPressPost[]> => {
   
   // 1. Fetch Page 1 to calibrate server limits (Total Pages)
@@ -102,13 +218,13 @@ export const fetchAllPostsParallel = async (
   try {
       const { data, headers } = await wpFetch<Record<string, unknown>[]>(
         url, 
-        `/posts?per_page=${perPage}&page=1&_embed=wp:featuredmedia&context=edit`, 
+        buildPostsEndpoint(postType, perPage, 1, filters),
         user, 
         pass, 
         { signal }
       );
       
-      page1 = data.map(parsePost);
+      page1 = data.map(p => parsePost(p, postType));
       serverTotal = parseInt(headers.get('X-WP-Total') || String(estimatedTotal), 10);
       serverTotalPages = parseInt(headers.get('X-WP-TotalPages') || '0', 10);
       
@@ -134,12 +250,12 @@ export const fetchAllPostsParallel = async (
     const results = await Promise.all(
       batch.map(async (p) => {
         try {
-            return await fetchPostsPage(url, user, pass, p, perPage, signal);
+            return await fetchPostsPage(url, user, pass, p, perPage, signal, postType, filters);
         } catch (e) {
             console.error(`Error fetching page ${p}:`, e);
             // Retry once for robustness
             try {
-                return await fetchPostsPage(url, user, pass, p, perPage, signal);
+                return await fetchPostsPage(url, user, pass, p, perPage, signal, postType, filters);
             } catch (retryError) {
                 console.error(`Retry failed for page ${p}:`, retryError);
                 return []; // Skip this page if it fails twice to prevent crash
@@ -155,6 +271,87 @@ export const fetchAllPostsParallel = async (
   return allPosts;
 };
 
+// ============ INCREMENTAL SYNC ============
+
+const ID_PAGE_SIZE = 100;
+
+export interface PostTypeSync {
+  changed: WordPressPost[]; // New or modified since the stored copy, not yet analysed
+  removedIds: number[]; // Stored posts that are gone from the collection (trashed, deleted or unpublished)
+}
+
+// REST dates are site-local without an offset, which is also how modified_after/after read them.
+// Both bounds are exclusive, so step back a second; refetching a post already stored is harmless.
+const sinceNewest = (posts: WordPressPost[], field: 'date' | 'modified'): string | null => {
+  const newest = posts.reduce((max, p) => (p[field] && p[field] > max ? p[field] : max), '');
+  if (!newest) return null;
+  const stamp = new Date(`${newest}Z`);
+  if (isNaN(stamp.getTime())) return null;
+  stamp.setUTCSeconds(stamp.getUTCSeconds() - 1);
+  return stamp.toISOString().slice(0, 19);
+};
+
+export const fetchPostIds = async (
+  url: string,
+  user: string,
+  pass: string | undefined,
+  restBase: string,
+  signal?: AbortSignal,
+  filters: PostQueryFilters = {}
+): Promise<number[]> => {
+  const endpoint = (page: number) => `/${restBase}?${new URLSearchParams({ ...filters, per_page: String(ID_PAGE_SIZE), page: String(page), _fields: 'id' }).toString()}`;
+  const { data, headers } = await wpFetch<{ id: number }[]>(url, endpoint(1), user, pass, { signal });
+  const totalPages = parseInt(headers.get('X-WP-TotalPages') || '1', 10);
+  const ids = data.map(p => p.id);
+  for (let page = 2; page <= totalPages; page++) {
+    const { data: more } = await wpFetch<{ id: number }[]>(url, endpoint(page), user, pass, { signal });
+    ids.push(...more.map(p => p.id));
+  }
+  return ids;
+};
+
+// modified_after catches edits and new drafts going live; after catches scheduled posts, which publish
+// without touching their modified date. The id sweep always runs: a matching count can still hide a removal
+// offset by a post we have never seen, and only the sweep catches posts that left the crawl scope.
+export const syncPostType = async (
+  url: string,
+  user: string,
+  pass: string | undefined,
+  postType: PostTypeInfo,
+  stored: WordPressPost[],
+  onProgress?: (loaded: number, total: number) => void,
+  signal?: AbortSignal,
+  filters: PostQueryFilters = {}
+): Promise<PostTypeSync> => {
+  const changed = new Map<number, WordPressPost>();
+  const windows: PostQueryFilters[] = [];
+  const modifiedAfter = sinceNewest(stored, 'modified');
+  const after = sinceNewest(stored, 'date');
+  if (modifiedAfter) windows.push({ ...filters, modified_after: modifiedAfter });
+  if (after) windows.push({ ...filters, after });
+
+  for (const filters of windows) {
+    const posts = await fetchAllPostsParallel(url, user, pass, 0, 20, onProgress, signal, 3, postType, filters);
+    posts.forEach(p => changed.set(p.id, p));
+  }
+
+  const storedIds = new Set(stored.map(p => p.id));
+  const liveIds = await fetchPostIds(url, user, pass, postType.restBase, signal, filters);
+  const live = new Set(liveIds);
+  // Live posts we have never seen (restored from trash with an old date, say) are fetched by id
+  const missing = liveIds.filter(id => !storedIds.has(id) && !changed.has(id));
+  for (let i = 0; i < missing.length; i += ID_PAGE_SIZE) {
+    const include = missing.slice(i, i + ID_PAGE_SIZE).join(',');
+    const posts = await fetchAllPostsParallel(url, user, pass, 0, 20, onProgress, signal, 3, postType, { ...filters, include });
+    posts.forEach(p => changed.set(p.id, p));
+  }
+
+  return {
+    changed: Array.from(changed.values()),
+    removedIds: stored.filter(p => !live.has(p.id)).map(p => p.id),
+  };
+};
+
 // SOTA OPTIMIZATION: Time-Slicing Generator for Non-Blocking Analysis
 export const analyzePostImages = async (
   posts: WordPressPost[],
@@ -203,9 +400,16 @@ const extractContentImages = (post: WordPressPost): ContentImage[] => {
   const doc = parser.parseFromString(post.content.rendered, 'text/html');
   const images: ContentImage[] = [];
   
-  const imgElements = doc.querySelectorAll('img');
+  // Walk paragraphs and images together so each image knows which </p> precedes it
+  const nodes = doc.querySelectorAll('p, img');
+  let paragraphIndex = -1;
   
-  imgElements.forEach((img, index) => {
+  nodes.forEach((node) => {
+    if (node.tagName === 'P') {
+      paragraphIndex++;
+      return;
+    }
+    const img = node;
     // 1. Detect Real Source (handling Lazy Loading plugins like Smush, WP Rocket, Autoptimize)
     let src = img.getAttribute('data-src') || 
               img.getAttribute('data-lazy-src') || 
@@ -243,7 +447,7 @@ const extractContentImages = (post: WordPressPost): ContentImage[] => {
       width: parseInt(img.getAttribute('width') || '0') || 0,
       height: parseInt(img.getAttribute('height') || '0') || 0,
       position: 0, // Not easily mapped via DOMParser, but not critical for Count/Gallery
-      paragraphIndex: 0, 
+      paragraphIndex: Math.max(0, paragraphIndex),
       isExternal,
       quality: 'medium'
     });
@@ -253,152 +457,248 @@ const extractContentImages = (post: WordPressPost): ContentImage[] => {
 };
 
 const analyzeImageDistribution = (post: WordPressPost, images: ContentImage[]) => {
-  // Simple heuristic analysis to avoid full DOM parse overhead
-  const pCount = (post.content.rendered.match(/<p/g) || []).length;
+  const { insertionPoints, imageGaps, paragraphCount: pCount } = buildPlacementPlan(post.content.raw || post.content.rendered, images.length, post.wordCount);
   
   return {
     contentImages: images,
-    insertionPoints: [],
-    imageGaps: [],
+    insertionPoints,
+    imageGaps,
     averageImageDistance: pCount / Math.max(1, images.length),
-    recommendedImageCount: Math.ceil(post.wordCount / 300),
+    recommendedImageCount: Math.ceil((post.wordCount || 0) / IMAGE_GAP_WORDS),
     qualityScore: Math.min(100, (images.length * 20) + (post.featured_media ? 50 : 0)),
     paragraphCount: pCount
   };
 };
 
-export const uploadImage = async (config: WordPressCredentials, imageDataUrl: string, fileName: string, altText: string, caption: string, signal?: AbortSignal): Promise<MediaUploadResult> => {
+export interface UploadMetadata {
+  settings?: MetadataSettings;
+  provenance?: ImageProvenance;
+}
+
+export const uploadImage = async (
+  config: WordPressCredentials,
+  imageDataUrl: string,
+  fileName: string,
+  altText: string,
+  caption: string,
+  signal?: AbortSignal,
+  description?: string,
+  metadata?: UploadMetadata
+): Promise<MediaUploadResult> => {
   const response = await fetch(imageDataUrl);
-  const blob = await response.blob();
+  const source = await response.blob();
+  const settings = metadata?.settings;
+  const embedded: ImageMetadata | null = settings?.embed || settings?.c2paSidecar
+    ? { title: altText, altText, caption, settings, provenance: metadata?.provenance }
+    : null;
+  const blob = embedded && settings?.embed ? await embedMetadata(source, embedded) : source;
+
   const formData = new FormData();
   formData.append('file', blob, fileName);
   formData.append('alt_text', altText);
   formData.append('caption', caption);
   formData.append('title', altText);
+  if (description) formData.append('description', description);
 
   const { data } = await wpFetch<{ id: number; source_url: string }>(config.url, '/media', config.username, config.appPassword, {
     method: 'POST', body: formData, signal, timeout: 120000
   });
-  return { id: data.id, source_url: data.source_url };
+  if (!embedded || !settings?.c2paSidecar) return { id: data.id, source_url: data.source_url };
+
+  // The sidecar is best-effort: sites that block JSON uploads still get the image
+  try {
+    const manifest = await buildManifestSidecar(blob, fileName, embedded);
+    const sidecar = new FormData();
+    sidecar.append('file', new Blob([manifest], { type: 'application/json' }), `${fileName.replace(/\.[^.]+$/, '')}-c2pa.json`);
+    sidecar.append('title', `${altText} (provenance manifest)`);
+    sidecar.append('description', data.source_url);
+    const { data: manifestMedia } = await wpFetch<{ source_url: string }>(config.url, '/media', config.username, config.appPassword, {
+      method: 'POST', body: sidecar, signal
+    });
+    return { id: data.id, source_url: data.source_url, manifestUrl: manifestMedia.source_url };
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.warn(`Manifest sidecar upload failed for ${fileName}:`, error);
+    return { id: data.id, source_url: data.source_url };
+  }
 };
 
-export const updatePost = async (config: WordPressCredentials, postId: number, update: any, signal?: AbortSignal): Promise<WordPressPost> => {
-  const { data } = await wpFetch<any>(config.url, `/posts/${postId}`, config.username, config.appPassword, {
+export const updatePost = async (config: WordPressCredentials, post: PostRef, update: any, signal?: AbortSignal): Promise<WordPressPost> => {
+  const { data } = await wpFetch<any>(config.url, postPath(post), config.username, config.appPassword, {
     method: 'POST', body: JSON.stringify(update), signal
   });
-  return parsePost(data);
+  return parsePost(data, { ...DEFAULT_POST_TYPE, restBase: post.restBase || DEFAULT_POST_TYPE.restBase });
 };
 
+// core/image's save() has no inline style or data-* attributes, so anything else there fails block validation.
+// Themes paint the placeholder from the attachment's ai_image_* meta, found through the wp-image-<id> class.
+const PLACEHOLDER_CLASS = 'has-ai-placeholder';
+
 export const updatePostContent = async (
   config: WordPressCredentials,
-  postId: number,
+  post: PostRef,
   insertionPoint: InsertionPoint,
   imageUrl: string,
-  imageAlt: string
+  imageAlt: string,
+  placeholder?: ImagePlaceholder,
+  mediaId?: number,
+  batchId?: string
 ): Promise<WordPressPost> => {
   // Fetch latest content to ensure we don't overwrite with stale data
   const { data: currentPost } = await wpFetch<any>(
     config.url,
-    `/posts/${postId}?context=edit`,
+    `${postPath(post)}?context=edit`,
     config.username,
     config.appPassword
   );
 
-  let content = currentPost.content.raw || currentPost.content.rendered || '';
-  
-  const imageHtml = `
-<!-- wp:image {"sizeSlug":"large"} -->
-<figure class="wp-block-image size-large"><img src="${imageUrl}" alt="${imageAlt}"/><figcaption class="wp-element-caption">${imageAlt}</figcaption></figure>
-<!-- /wp:image -->`;
-
-  // Insert logic: Replace the Nth closing paragraph tag with closing paragraph + new image
-  let count = 0;
-  content = content.replace(/<\/p>/gi, (match: string) => {
-      if (count === insertionPoint.paragraphIndex) {
-          count++;
-          return match + '\n\n' + imageHtml;
-      }
-      count++;
-      return match;
+  const content = currentPost.content.raw || currentPost.content.rendered || '';
+
+  // Block posts get a core/image block after the anchor block, classic posts an <img>; a vanished anchor appends
+  const next = insertImage(parseContent(content), resolveInsertionPath(content, insertionPoint), {
+    url: imageUrl,
+    alt: imageAlt,
+    caption: imageAlt,
+    mediaId,
+    className: placeholder ? PLACEHOLDER_CLASS : undefined,
   });
-  
-  // Fallback: Append if index was out of bounds (e.g. content structure mismatch)
-  if (count <= insertionPoint.paragraphIndex) {
-      content += '\n\n' + imageHtml;
-  }
 
-  return updatePost(config, postId, { content });
+  return journaledWrite(config, post, currentPost, 'insert_image', `Inserted ${fileLabel(imageUrl)}`, batchId,
+    () => updatePost(config, post, { content: serializeContent(next) }));
 };
 
+// Pass null to strip the JSON-LD block; WordPress drops <script> for users without unfiltered_html
+export const updatePostSchema = async (
+  config: WordPressCredentials,
+  post: PostRef,
+  jsonLd: string | null,
+  signal?: AbortSignal,
+  batchId?: string
+): Promise<WordPressPost> => {
+  const { data: currentPost } = await wpFetch<any>(
+    config.url,
+    `${postPath(post)}?context=edit`,
+    config.username,
+    config.appPassword,
+    { signal }
+  );
+
+  const content = currentPost.content.raw || currentPost.content.rendered || '';
+  const nextContent = jsonLd === null ? removeSchemaBlock(content) : upsertSchemaBlock(content, jsonLd);
+  return journaledWrite(config, post, currentPost, 'schema', jsonLd === null ? 'Removed JSON-LD schema' : 'Wrote JSON-LD schema', batchId,
+    () => updatePost(config, post, { content: nextContent }, signal), signal);
+};
+
+// Pass null to strip the takeaways block; an existing block is always replaced, never stacked
+export const updatePostTldr = async (
+  config: WordPressCredentials,
+  post: PostRef,
+  bullets: string[] | null,
+  heading?: string,
+  signal?: AbortSignal,
+  batchId?: string
+): Promise<WordPressPost> => {
+  const { data: currentPost } = await wpFetch<any>(
+    config.url,
+    `${postPath(post)}?context=edit`,
+    config.username,
+    config.appPassword,
+    { signal }
+  );
+
+  const content = currentPost.content.raw || currentPost.content.rendered || '';
+  const nextContent = bullets === null ? removeTldrBlock(content) : upsertTldrBlock(content, bullets, heading);
+  return journaledWrite(config, post, currentPost, 'tldr', bullets === null ? 'Removed TL;DR' : `Wrote TL;DR (${bullets.length} bullets)`, batchId,
+    () => updatePost(config, post, { content: nextContent }, signal), signal);
+};
+
+// Journaled when the post the media belongs to is given; rollbacks call it without one
 export const updateMediaAltText = async (
   config: WordPressCredentials,
   mediaId: number,
-  altText: string
+  altText: string,
+  post?: PostRef,
+  batchId?: string
 ): Promise<void> => {
-  await wpFetch(
+  const write = async () => {
+    await wpFetch(
+      config.url,
+      `/media/${mediaId}`,
+      config.username,
+      config.appPassword,
+      {
+        method: 'POST',
+        body: JSON.stringify({ alt_text: altText })
+      }
+    );
+  };
+  if (!post) return write();
+
+  const [{ data: currentPost }, { data: media }] = await Promise.all([
+    wpFetch<any>(config.url, `${postPath(post)}?context=edit&_fields=title,featured_media,modified`, config.username, config.appPassword),
+    wpFetch<{ alt_text?: string }>(config.url, `/media/${mediaId}?context=edit&_fields=alt_text`, config.username, config.appPassword),
+  ]);
+  await journaledWrite(config, post, currentPost, 'alt_text', `Changed alt text on media #${mediaId}`, batchId, write, undefined,
+    { altText: { mediaId, alt: media.alt_text || '' } });
+};
+
+export const setFeaturedImage = async (
+  config: WordPressCredentials,
+  post: PostRef,
+  mediaId: number,
+  signal?: AbortSignal,
+  batchId?: string
+): Promise<WordPressPost> => {
+  const { data: currentPost } = await wpFetch<any>(
     config.url,
-    `/media/${mediaId}`,
+    `${postPath(post)}?context=edit&_fields=title,featured_media,modified`,
     config.username,
     config.appPassword,
-    {
-      method: 'POST',
-      body: JSON.stringify({ alt_text: altText })
-    }
+    { signal }
   );
+  return journaledWrite(config, post, currentPost, 'featured_image', `Set featured image to media #${mediaId}`, batchId,
+    () => updatePost(config, post, { featured_media: mediaId }, signal), signal);
+};
+
+// The keys persist only where the site registers them as media meta with show_in_rest; returns whether they did
+export const updateMediaPlaceholder = async (
+  config: WordPressCredentials,
+  mediaId: number,
+  placeholder: ImagePlaceholder,
+  signal?: AbortSignal
+): Promise<boolean> => {
+  const meta = {
+    ai_image_blurhash: placeholder.blurHash,
+    ai_image_lqip: placeholder.lqip,
+    ai_image_dominant_color: placeholder.dominantColor,
+  };
+  const { data } = await wpFetch<{ meta?: Record<string, unknown> }>(config.url, `/media/${mediaId}`, config.username, config.appPassword, {
+    method: 'POST', body: JSON.stringify({ meta }), signal
+  });
+  return data.meta?.ai_image_blurhash === placeholder.blurHash;
 };
 
 // SOTA Feature: Delete specific image from content
 export const deleteContentImage = async (
   config: WordPressCredentials,
   post: WordPressPost,
-  imageUrlToDelete: string
+  imageUrlToDelete: string,
+  batchId?: string
 ): Promise<WordPressPost> => {
-    // 1. Fetch latest raw content
     const { data: currentPost } = await wpFetch<any>(
         config.url,
-        `/posts/${post.id}?context=edit`,
+        `${postPath(post)}?context=edit`,
         config.username,
         config.appPassword
     );
 
-    let content = currentPost.content.raw || currentPost.content.rendered || '';
-    
-    // 2. DOM Surgery
-    const doc = new DOMParser().parseFromString(content, 'text/html');
-    const images = Array.from(doc.querySelectorAll('img'));
-    let modified = false;
-
-    for (const img of images) {
-        if (img.src.includes(imageUrlToDelete) || imageUrlToDelete.includes(img.src)) {
-             // Find parent wrapper (figure or div)
-             const wrapper = img.closest('figure') || img.closest('.wp-block-image') || img;
-             wrapper.remove();
-             modified = true;
-             break; // Assume unique for now, or remove all instances
-        }
-    }
-
-    if (!modified) {
-        // Fallback: Regex removal if DOM parser misses specific WP Block syntax quirks
-        // Escape special chars in URL for regex
-        const escapedUrl = imageUrlToDelete.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-        // Regex to match figure blocks containing the image
-        const blockRegex = new RegExp(`<!-- wp:image.*?<img[^>]*src="${escapedUrl}".*?<!-- /wp:image -->`, 'gs');
-        const prevLen = content.length;
-        content = content.replace(blockRegex, '');
-        
-        // If regex didn't match block, try simple img tag removal
-        if (content.length === prevLen) {
-             const imgTagRegex = new RegExp(`<img[^>]*src="${escapedUrl}"[^>]*>`, 'g');
-             content = content.replace(imgTagRegex, '');
-        }
-    } else {
-        // Serialize back
-        content = doc.body.innerHTML;
-    }
+    const content = currentPost.content.raw || currentPost.content.rendered || '';
+    // Only the image's own block (or its markup inside classic HTML) goes; every other byte is written back as read
+    const next = removeImage(parseContent(content), imageUrlToDelete);
+    if (!next) throw new ValidationError('Image not found in post content', 'imageUrl');
 
-    // 3. Update Post
-    return updatePost(config, post.id, { content });
+    return journaledWrite(config, post, currentPost, 'delete_image', `Removed ${fileLabel(imageUrlToDelete)}`, batchId,
+        () => updatePost(config, post, { content: serializeContent(next) }));
 };
 
 // SOTA Feature: Replace specific image in content
@@ -407,30 +707,248 @@ export const replaceContentImage = async (
   post: WordPressPost,
   oldImageUrl: string,
   newImageUrl: string,
-  newAltText: string
+  newAltText: string,
+  newMediaId?: number,
+  batchId?: string
 ): Promise<WordPressPost> => {
-    // 1. Fetch latest raw content
     const { data: currentPost } = await wpFetch<any>(
         config.url,
-        `/posts/${post.id}?context=edit`,
+        `${postPath(post)}?context=edit`,
         config.username,
         config.appPassword
     );
 
-    let content = currentPost.content.raw || currentPost.content.rendered || '';
+    const content = currentPost.content.raw || currentPost.content.rendered || '';
+    const next = replaceImage(parseContent(content), oldImageUrl, { url: newImageUrl, alt: newAltText, mediaId: newMediaId });
+    if (!next) throw new ValidationError('Image not found in post content', 'imageUrl');
 
-    // 2. DOM Surgery - Simple Attribute Swap
-    // We use string replacement for safety to preserve block comments if DOMParser strips them
-    // Note: This is a robust heuristic. For 100% block fidelity, a WP Block Parser is needed, 
-    // but regex/string replacement works for 99% of src swaps.
-    
-    // Replace URL
-    content = content.split(oldImageUrl).join(newImageUrl);
-    
-    // Attempt to update alt text if we can find the tag
-    // This part is tricky with string replace, so we rely on the URL swap primarily.
-    
-    return updatePost(config, post.id, { content });
+    return journaledWrite(config, post, currentPost, 'replace_image', `Replaced ${fileLabel(oldImageUrl)} with ${fileLabel(newImageUrl)}`, batchId,
+        () => updatePost(config, post, { content: serializeContent(next) }));
+};
+
+// ============ OPERATIONS JOURNAL ============
+
+const CONTENT_OPERATIONS = new Set<OperationKind>(['insert_image', 'delete_image', 'replace_image', 'schema', 'tldr']);
+
+const fileLabel = (url: string): string => url.replace(/[?#].*$/, '').split('/').pop() || url;
+
+// Types without revision support 404 here; the journal's own copy of the content still covers rollback
+const fetchLatestRevisionId = async (config: WordPressCredentials, post: PostRef, signal?: AbortSignal): Promise<number | undefined> => {
+  try {
+    const { data } = await wpFetch<{ id: number }[]>(
+      config.url, `${postPath(post)}/revisions?per_page=1&_fields=id`, config.username, config.appPassword, { signal }
+    );
+    return data[0]?.id;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    return undefined;
+  }
+};
+
+const fetchRevisionContent = async (config: WordPressCredentials, post: PostRef, revisionId: number): Promise<string> => {
+  const { data } = await wpFetch<any>(
+    config.url, `${postPath(post)}/revisions/${revisionId}?context=edit`, config.username, config.appPassword
+  );
+  return data.content?.raw ?? '';
+};
+
+// Records what the write is about to replace, runs it, then marks the entry applied (with the post's new
+// modified date, which later tells a rollback whether anyone edited since) or failed
+const journaledWrite = async <T extends WordPressPost | void>(
+  config: WordPressCredentials,
+  post: PostRef,
+  currentPost: any,
+  kind: OperationKind,
+  summary: string,
+  batchId: string | undefined,
+  write: () => Promise<T>,
+  signal?: AbortSignal,
+  snapshot: Partial<OperationSnapshot> = {}
+): Promise<T> => {
+  const keepsContent = CONTENT_OPERATIONS.has(kind);
+  const entry: OperationEntry = {
+    id: createOperationId(),
+    siteUrl: normalizeSiteUrl(config.url),
+    postId: post.id,
+    restBase: post.restBase || DEFAULT_POST_TYPE.restBase,
+    postTitle: currentPost.title?.raw || currentPost.title?.rendered || `#${post.id}`,
+    kind,
+    summary,
+    ...(batchId ? { batchId } : {}),
+    createdAt: Date.now(),
+    status: 'pending',
+    before: {
+      featuredMedia: currentPost.featured_media || 0,
+      ...(keepsContent ? { content: currentPost.content?.raw ?? currentPost.content?.rendered ?? '' } : {}),
+      ...snapshot,
+    },
+    revisionId: keepsContent ? await fetchLatestRevisionId(config, post, signal) : undefined,
+  };
+  await saveOperation(entry);
+
+  try {
+    const result = await write();
+    await updateOperation(entry, { status: 'applied', lastKnownModified: result ? result.modified : undefined });
+    return result;
+  } catch (error) {
+    await updateOperation(entry, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+    throw error;
+  }
+};
+
+// Restores only what the operation changed. Newer applied operations on the same post have to be undone first,
+// and a post edited outside the app since raises ConflictError unless forced. Returns the restored post, or
+// null for alt text, which lives on the media item.
+export const rollbackOperation = async (
+  config: WordPressCredentials,
+  entry: OperationEntry,
+  force = false
+): Promise<WordPressPost | null> => {
+  if (entry.status !== 'applied') throw new ValidationError('Only applied operations can be rolled back', 'status');
+  const post: PostRef = { id: entry.postId, restBase: entry.restBase };
+
+  if (entry.kind === 'alt_text') {
+    if (!entry.before.altText) throw new ValidationError('No alt text was recorded for this operation', 'altText');
+    await updateMediaAltText(config, entry.before.altText.mediaId, entry.before.altText.alt);
+    await updateOperation(entry, { status: 'rolled_back' });
+    return null;
+  }
+
+  const newer = (await listPostOperations(config.url, entry.postId, entry.restBase))
+    .filter(e => e.createdAt > entry.createdAt && e.kind !== 'alt_text');
+  if (newer.some(e => e.status === 'applied')) {
+    throw new ValidationError('Roll back the newer changes to this post first', 'operation');
+  }
+
+  const { data: currentPost } = await wpFetch<any>(
+    config.url, `${postPath(post)}?context=edit&_fields=modified`, config.username, config.appPassword
+  );
+  // Our own later writes and their rollbacks moved modified too; the newest one we know of is what to expect
+  const expected = [entry, ...newer].filter(e => e.lastKnownModified).sort((a, b) => b.createdAt - a.createdAt)[0]?.lastKnownModified;
+  if (!force && expected && currentPost.modified !== expected) throw new ConflictError();
+
+  let update: Record<string, unknown>;
+  if (entry.kind === 'featured_image') {
+    update = { featured_media: entry.before.featuredMedia };
+  } else if (entry.before.content !== undefined) {
+    update = { content: entry.before.content };
+  } else if (entry.revisionId) {
+    // Pruned entries keep only the revision link; WordPress still has the content
+    update = { content: await fetchRevisionContent(config, post, entry.revisionId) };
+  } else {
+    throw new ValidationError('Nothing was recorded to restore for this operation', 'before');
+  }
+
+  const restored = await updatePost(config, post, update);
+  if (entry.kind === 'featured_image' && restored.featured_media > 0) {
+    try {
+      const { data } = await wpFetch<{ source_url?: string }>(
+        config.url, `/media/${restored.featured_media}?_fields=source_url`, config.username, config.appPassword
+      );
+      restored.existingImageUrl = data.source_url;
+    } catch (error) {
+      console.warn(`Could not load restored featured image ${restored.featured_media}:`, error);
+    }
+  }
+  await updateOperation(entry, { status: 'rolled_back', lastKnownModified: restored.modified });
+  return restored;
+};
+
+export interface BatchRollbackResult {
+  restored: { entry: OperationEntry; post: WordPressPost | null }[];
+  failed: { entry: OperationEntry; error: unknown }[];
+}
+
+// Newest first, so several writes to one post unwind in order; a conflicted or failed entry is reported and skipped
+export const rollbackBatch = async (
+  config: WordPressCredentials,
+  batchId: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<BatchRollbackResult> => {
+  const entries = (await listBatchOperations(config.url, batchId)).filter(e => e.status === 'applied');
+  const result: BatchRollbackResult = { restored: [], failed: [] };
+
+  for (const [i, entry] of entries.entries()) {
+    try {
+      result.restored.push({ entry, post: await rollbackOperation(config, entry) });
+    } catch (error) {
+      result.failed.push({ entry, error });
+    }
+    onProgress?.(i + 1, entries.length);
+  }
+  return result;
+};
+
+// ============ SOCIAL META ============
+
+// Rank Math wins when both are active: it is the one whose fields can actually be written over REST
+export const detectSeoPlugin = async (config: WordPressCredentials, signal?: AbortSignal): Promise<SeoPlugin | null> => {
+  const cacheKey = generateCacheKey('seoPlugin', { url: config.url });
+  const { plugin } = await cachedFetch(cacheKey, async () => {
+    const { data } = await wpFetch<{ namespaces?: string[] }>(config.url, '/', config.username, config.appPassword, { signal, namespace: '' });
+    const namespaces = data.namespaces || [];
+    const detected: SeoPlugin | null = namespaces.includes('rankmath/v1') ? 'rankmath' : namespaces.includes('yoast/v1') ? 'yoast' : null;
+    return { plugin: detected };
+  }, 10 * 60 * 1000);
+  return plugin;
+};
+
+const fetchModified = async (config: WordPressCredentials, post: PostRef, signal?: AbortSignal): Promise<string> => {
+  const { data } = await wpFetch<{ modified: string }>(
+    config.url, `${postPath(post)}?context=edit&_fields=modified`, config.username, config.appPassword, { signal }
+  );
+  return data.modified;
+};
+
+// Social meta isn't journaled, but writing it can still move the post's modified date. The newest journaled write
+// adopts the new date when it was the last one to touch the post, so rolling that write back isn't a conflict.
+const adoptOwnModified = async (config: WordPressCredentials, post: PostRef, before: string, after?: string): Promise<void> => {
+  if (!after || after === before) return;
+  const latest = (await listPostOperations(config.url, post.id, post.restBase || DEFAULT_POST_TYPE.restBase))
+    .find(e => e.kind !== 'alt_text' && e.lastKnownModified);
+  if (latest?.lastKnownModified === before) await updateOperation(latest, { lastKnownModified: after });
+};
+
+// Neither plugin has a Pinterest field, so that variant is uploaded but never written to meta.
+// Returns false when the site accepted the request but did not store the fields.
+export const updateSocialMeta = async (
+  config: WordPressCredentials,
+  post: PostRef,
+  plugin: SeoPlugin,
+  images: SocialImage[],
+  signal?: AbortSignal
+): Promise<boolean> => {
+  const og = images.find(i => i.platform === 'og');
+  const twitter = images.find(i => i.platform === 'twitter');
+  const modifiedBefore = await fetchModified(config, post, signal);
+
+  if (plugin === 'rankmath') {
+    const meta: Record<string, string> = {};
+    if (og) Object.assign(meta, { rank_math_facebook_image: og.url, rank_math_facebook_image_id: String(og.mediaId) });
+    if (twitter) {
+      Object.assign(meta, {
+        rank_math_twitter_use_facebook: 'off',
+        rank_math_twitter_card_type: 'summary_large_image',
+        rank_math_twitter_image: twitter.url,
+        rank_math_twitter_image_id: String(twitter.mediaId),
+      });
+    }
+    const { data } = await wpFetch<unknown>(config.url, '/updateMeta', config.username, config.appPassword, {
+      method: 'POST', body: JSON.stringify({ objectType: 'post', objectID: post.id, meta }), signal, namespace: 'rankmath/v1',
+    });
+    await adoptOwnModified(config, post, modifiedBefore, await fetchModified(config, post, signal));
+    return data !== false;
+  }
+
+  // Yoast keeps these as protected meta; they only persist where the site registers them with show_in_rest
+  const meta: Record<string, string> = {};
+  if (og) Object.assign(meta, { '_yoast_wpseo_opengraph-image': og.url, '_yoast_wpseo_opengraph-image-id': String(og.mediaId) });
+  if (twitter) Object.assign(meta, { '_yoast_wpseo_twitter-image': twitter.url, '_yoast_wpseo_twitter-image-id': String(twitter.mediaId) });
+  const { data } = await wpFetch<{ meta?: Record<string, unknown>; modified?: string }>(config.url, postPath(post), config.username, config.appPassword, {
+    method: 'POST', body: JSON.stringify({ meta }), signal,
+  });
+  await adoptOwnModified(config, post, modifiedBefore, data.modified);
+  return Object.keys(meta).every(key => data.meta?.[key] === meta[key]);
 };
 
 export const testConnection = async (url: string, user: string, pass?: string) => {
@@ -444,14 +962,27 @@ export const testConnection = async (url: string, user: string, pass?: string) =
 
 export default {
   getTotalPosts,
+  fetchPostTypes,
   fetchPostsPage,
   fetchAllPostsParallel,
+  fetchPostIds,
+  syncPostType,
+  fetchSiteTaxonomies,
+  buildCrawlFilters,
   analyzePostImages,
   uploadImage,
   updatePost,
   updatePostContent,
+  updatePostSchema,
+  updatePostTldr,
   updateMediaAltText,
+  updateMediaPlaceholder,
+  setFeaturedImage,
   deleteContentImage,
   replaceContentImage,
+  rollbackOperation,
+  rollbackBatch,
+  detectSeoPlugin,
+  updateSocialMeta,
   testConnection,
 };
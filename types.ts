@@ -14,6 +14,7 @@ export enum AIProvider {
   Stability = 'Stability AI',
   OpenRouter = 'OpenRouter',
   Pollinations = 'Pollinations.ai (Free)',
+  TitleCard = 'Title Card (Local)',
 }
 
 export enum TextAIProvider {
@@ -27,6 +28,7 @@ export enum ImageFormat {
   WebP = 'image/webp',
   JPEG = 'image/jpeg',
   PNG = 'image/png',
+  AVIF = 'image/avif',
 }
 
 export enum AspectRatio {
@@ -47,6 +49,8 @@ export type JobStatus =
   | 'generating_brief' 
   | 'analyzing_placement' 
   | 'generating_image' 
+  | 'processing_image' 
+  | 'awaiting_selection' 
   | 'uploading' 
   | 'inserting' 
   | 'setting_featured' 
@@ -68,6 +72,36 @@ export interface WordPressCredentials {
   url: string;
   username: string;
   appPassword?: string;
+  postTypes?: PostTypeInfo[]; // Types to crawl; unset crawls posts only
+  crawlScope?: CrawlScope;
+}
+
+export interface PostTypeInfo {
+  slug: string; // 'post', 'page', 'product'
+  name: string;
+  restBase: string; // Collection under wp/v2, e.g. 'posts', 'pages', 'product'
+  taxonomies?: string[]; // Taxonomy slugs registered for the type, e.g. 'category', 'post_tag'
+}
+
+export type WordPressPostStatus = 'publish' | 'draft' | 'future' | 'private' | 'pending';
+
+// Narrows the crawl itself; term restrictions only apply to types that have the taxonomy
+export interface CrawlScope {
+  statuses?: WordPressPostStatus[]; // Unset crawls published posts only, as WordPress does by default
+  categories?: number[];
+  tags?: number[];
+}
+
+export interface TaxonomyTerm {
+  id: number;
+  name: string;
+  count?: number;
+}
+
+export interface SiteTaxonomies {
+  categories: TaxonomyTerm[];
+  tags: TaxonomyTerm[];
+  authors: TaxonomyTerm[];
 }
 
 export interface ImageSettings {
@@ -78,18 +112,70 @@ export interface ImageSettings {
   style: string;
   negativePrompt: string;
   useHighQuality?: boolean;
+  maxUploadWidth?: number; // Downscale cap applied after resizing to ImageSize; unset keeps the full size
+  variantCount?: number; // Candidates generated per featured image; above 1 the user (or bulk auto-pick) chooses one
+  autoPickVariants?: boolean; // Bulk runs upload the best-scoring variant instead of waiting for the picker
+  seed?: number; // Per-request override used to reproduce an image; not a user-facing setting
+  titleCard?: TitleCardSettings; // Only read by the title-card provider
+  socialVariants?: boolean; // Also upload Open Graph, Twitter and Pinterest crops of each featured image
+  metadata?: MetadataSettings;
+  duplicateCheck?: 'off' | 'flag' | 'regenerate'; // What to do when a new image looks like one already used on another post
+  injectPlaceholders?: boolean; // Class inserted figures so themes can paint the LQIP and dominant colour from media meta
+  watermark?: WatermarkSettings;
+}
+
+export type WatermarkPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center';
+
+export interface WatermarkPlacement {
+  position: WatermarkPosition;
+  scale: number; // Logo width as a fraction of image width
+  padding: number; // Inset from the edges as a fraction of image width
+}
+
+export interface WatermarkSettings {
+  enabled: boolean;
+  logoDataUrl: string; // User-uploaded PNG, kept as a data URL so it survives reloads with the config
+  opacity: number; // 0-1
+  placements: Record<AspectRatio, WatermarkPlacement>;
+}
+
+export interface ImagePlaceholder {
+  blurHash: string;
+  lqip: string; // Tiny base64 JPEG data URL
+  dominantColor: string; // #rrggbb
+}
+
+export interface MetadataSettings {
+  embed: boolean; // Write an XMP packet (IPTC fields) into JPEG, PNG and WebP uploads
+  creator: string;
+  copyright: string;
+  aiDisclosure: boolean; // IPTC DigitalSourceType = trainedAlgorithmicMedia
+  c2paSidecar: boolean; // Upload an unsigned C2PA-style manifest as JSON next to each image
+}
+
+export interface TitleCardSettings {
+  fontFamily: string;
+  fontWeight?: number;
+  textColor: string;
+  backgroundFrom: string;
+  backgroundTo: string;
+  background: 'gradient' | 'ai'; // 'ai' paints a Pollinations background under a dark scrim
+  logoUrl?: string;
+  align?: 'left' | 'center';
 }
 
 export interface ImageAIConfig {
   provider: AIProvider;
   apiKey?: string;
   model?: string;
+  baseUrl?: string; // Override the provider endpoint (proxies, local mock servers)
 }
 
 export interface AnalysisAIConfig {
   provider: TextAIProvider;
   apiKey?: string;
   model?: string;
+  baseUrl?: string; // OpenAI-compatible endpoint override (self-hosted vLLM, llama.cpp)
 }
 
 export interface SEOContext {
@@ -113,13 +199,46 @@ export interface AEOAnalysis {
 }
 
 export interface ImageAnalysis {
-  score: number;
+  score: number; // Overall 0-10, the mean of relevance and technical quality
+  relevanceScore: number; // 0-10 fit with the post title and keywords
+  technicalScore: number; // 0-10 sharpness, exposure, composition, artifacts
+  embeddedText: string[]; // Text rendered inside the image
+  hasWatermark: boolean;
+  imageUrl: string; // The image that was analyzed (featured or first content image)
   altText: string;
   brief: string;
   caption?: string;
   filenameSlug?: string;
 }
 
+// Everything needed to recreate a generated image
+export interface ImageProvenance {
+  provider: string;
+  model?: string;
+  seed?: number; // Absent when the provider has no seed control
+  prompt: string; // Final prompt sent to the provider, style included
+  negativePrompt?: string;
+  settingsHash: string; // hashImageSettings of the ImageSettings used
+  createdAt: string; // ISO 8601
+}
+
+// A generated, post-processed candidate held in memory until one is chosen for upload
+export interface ImageVariant {
+  id: string;
+  dataUrl: string;
+  extension: string;
+  prompt: string;
+  score: number; // scoreImage heuristic, 0-100
+  width: number;
+  height: number;
+  bytes: number;
+  provenance: ImageProvenance;
+  hash?: string;
+  duplicateOf?: number; // Post whose image this candidate nearly matches
+  watermarked?: boolean;
+  unstampedDataUrl?: string; // The candidate before its watermark, kept in memory only for the social crops
+}
+
 export interface GeneratedImage {
   url: string;
   alt: string;
@@ -127,6 +246,40 @@ export interface GeneratedImage {
   brief?: string;
   caption?: string;
   filenameSlug?: string;
+  width?: number;
+  height?: number;
+  provenance?: ImageProvenance;
+  hash?: string; // Perceptual dHash, 16 hex digits
+  duplicateOf?: number; // Uploaded despite nearly matching this post's image
+  placeholder?: ImagePlaceholder;
+  watermarked?: boolean;
+  social?: SocialImage[];
+  socialMetaPlugin?: SeoPlugin; // Plugin whose social fields now point at the variants; unset when none was written
+}
+
+export interface ImageHashEntry {
+  postId: number;
+  url: string;
+  hash: string;
+  source: 'featured' | 'content';
+}
+
+export interface DuplicateCluster {
+  hash: string;
+  entries: ImageHashEntry[];
+  maxDistance: number; // Largest Hamming distance from the first entry, 0 for byte-identical pictures
+}
+
+export type SocialPlatform = 'og' | 'twitter' | 'pinterest';
+
+export type SeoPlugin = 'yoast' | 'rankmath';
+
+export interface SocialImage {
+  platform: SocialPlatform;
+  mediaId: number;
+  url: string;
+  width: number;
+  height: number;
 }
 
 export interface Configuration {
@@ -154,6 +307,7 @@ export interface ContentImage {
 // NEW: Image insertion point
 export interface InsertionPoint {
   paragraphIndex: number;
+  blockPath?: string; // Path of the anchor block in content.raw ("3", or "2.1" when nested); the image goes right after it
   afterElement: 'p' | 'h2' | 'h3' | 'ul' | 'ol' | 'blockquote';
   position: number;
   context: string; // Surrounding text for AI context
@@ -165,7 +319,7 @@ export interface InsertionPoint {
 export interface PostImageAnalysis {
   contentImages: ContentImage[];
   insertionPoints: InsertionPoint[];
-  imageGaps: number[]; // Paragraphs without images
+  imageGaps: number[]; // Paragraph indices where a long image-free stretch crosses IMAGE_GAP_WORDS
   averageImageDistance: number;
   recommendedImageCount: number;
   qualityScore: number;
@@ -173,6 +327,8 @@ export interface PostImageAnalysis {
 
 export interface WordPressPost {
   id: number;
+  type?: string; // Post type slug; unset on posts crawled before types were tracked
+  restBase?: string; // Collection the post is read and written through; 'posts' when unset
   title: {
     rendered: string;
   };
@@ -187,6 +343,11 @@ export interface WordPressPost {
   date: string;
   modified: string;
   featured_media: number;
+  authorName?: string;
+  author?: number;
+  categories?: number[];
+  tags?: number[];
+  postStatus?: WordPressPostStatus; // WordPress publishing status; `status` below tracks our own jobs
   imageCount: number;
   existingImageUrl?: string;
   existingImageAltText?: string;
@@ -196,6 +357,8 @@ export interface WordPressPost {
   seoScore?: number;
   contentWithPlaceholder?: string;
   generatedSchema?: string;
+  tldr?: string[]; // Key takeaways currently inserted in the post
+  skipWatermark?: boolean; // Per-post opt-out of the logo overlay
   status?: JobStatus;
   statusMessage?: string;
   // NEW: Enhanced image data
@@ -209,12 +372,16 @@ export interface CrawlProgress {
   current: number;
   total: number;
   phase?: 'fetching' | 'analyzing' | 'complete';
+  incremental?: boolean; // Re-crawl against the local post store; only changed posts are fetched and analysed
 }
 
 export interface Job {
   post: WordPressPost;
   action: 'generate' | 'analyze' | 'schema' | 'tldr' | 'aeo' | 'insert';
   insertionPoint?: InsertionPoint;
+  autoPick?: boolean; // Bulk runs choose the best-scoring variant instead of waiting for the picker
+  regenerate?: 'same-seed' | 'vary'; // Re-run the current featured image's provenance instead of writing a new brief
+  batchId?: string; // Set on bulk runs so their writes can be rolled back together
 }
 
 export interface CacheEntry<T> {
@@ -235,9 +402,53 @@ export interface TestResult {
   message: string;
 }
 
+// AI provider registry contracts
+export interface TextProviderCapabilities {
+  vision: boolean;
+  jsonMode: boolean;
+  maxTokens: number; // Upper bound on output tokens the provider accepts
+}
+
+export interface TextGenerationOptions {
+  maxTokens?: number;
+  signal?: AbortSignal;
+  onToken?: (delta: string) => void; // Receives text as it streams in, where the provider supports it
+  images?: string[]; // Image URLs or data URLs, only honoured when capabilities.vision is set
+}
+
+export interface TextProvider {
+  id: string;
+  capabilities: TextProviderCapabilities;
+  generate(config: AnalysisAIConfig, prompt: string, options?: TextGenerationOptions): Promise<string>;
+  generateJson<T = Record<string, unknown>>(config: AnalysisAIConfig, prompt: string, options?: TextGenerationOptions): Promise<T>;
+  test(config: AnalysisAIConfig): Promise<TestResult>;
+}
+
+export interface ImageProviderCapabilities {
+  negativePrompt: boolean;
+  requiresApiKey: boolean;
+  seed: boolean; // Honours ImageSettings.seed, so the same seed and prompt reproduce the image
+  rendersTitle?: boolean; // Expects the post title as its prompt instead of an AI-written brief
+}
+
+// Names the engine that actually drew the image, which differs from the configured one when a provider degrades
+export interface ImageGenerationResult {
+  dataUrl: string;
+  provider: string;
+  model?: string;
+}
+
+export interface ImageProvider {
+  id: string;
+  capabilities: ImageProviderCapabilities;
+  generate(config: ImageAIConfig, prompt: string, settings: ImageSettings, signal?: AbortSignal): Promise<ImageGenerationResult>;
+  test(config: ImageAIConfig): Promise<TestResult>;
+}
+
 export interface MediaUploadResult {
   id: number;
   source_url: string;
+  manifestUrl?: string;
 }
 
 export interface ImageBrief {
@@ -260,8 +471,17 @@ export type FilterPreset =
   | 'errors'
   | 'pending';
 
+// Section filters applied on top of the preset; unset means any
+export interface PostFacetFilters {
+  category?: number;
+  tag?: number;
+  author?: number;
+  postStatus?: WordPressPostStatus;
+}
+
 export interface FilterConfig {
   preset: FilterPreset;
+  facets?: PostFacetFilters;
   minImages?: number;
   maxImages?: number;
   hasFeatureImage?: boolean;
@@ -283,6 +503,34 @@ export interface BatchOperation {
   errors: Array<{ postId: number; error: string }>;
 }
 
+// Operations journal: every post and media write, with the state it replaced
+export type OperationKind = 'insert_image' | 'delete_image' | 'replace_image' | 'featured_image' | 'alt_text' | 'schema' | 'tldr';
+
+export type OperationStatus = 'pending' | 'applied' | 'failed' | 'rolled_back';
+
+export interface OperationSnapshot {
+  content?: string; // content.raw before the write; only kept for operations that change content
+  featuredMedia: number;
+  altText?: { mediaId: number; alt: string };
+}
+
+export interface OperationEntry {
+  id: string;
+  siteUrl: string; // Normalised like the post store's key
+  postId: number;
+  restBase: string;
+  postTitle: string;
+  kind: OperationKind;
+  summary: string;
+  batchId?: string;
+  createdAt: number;
+  status: OperationStatus;
+  before: OperationSnapshot;
+  revisionId?: number; // Newest WordPress revision at write time, i.e. a server-side copy of the content we replaced
+  lastKnownModified?: string; // post.modified after our write (or rollback); anything else means someone edited since
+  error?: string;
+}
+
 // NEW: App stats
 export interface AppStats {
   totalPosts: number;